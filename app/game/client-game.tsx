@@ -17,6 +17,7 @@ const GameHeader = dynamic(() => import("@/components/game/GameHeader"), {
 
 interface ClientGameProps {
   mode?: "offline" | "multiplayer";
+  roomCode?: string; // Invite code from the URL, multiplayer only
 }
 
 /**
@@ -34,8 +35,9 @@ interface ClientGameProps {
  * - Client only handles rendering and input
  * - Client performs prediction between server updates for responsive feel
  * - Uses WebSockets for real-time communication
+ * - Joins a private room when opened with ?room=CODE, otherwise matchmaking picks one
  */
-export default function ClientGame({ mode = "offline" }: ClientGameProps) {
+export default function ClientGame({ mode = "offline", roomCode }: ClientGameProps) {
   const [playerName, setPlayerName] = useState<string>("");
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [serverError, setServerError] = useState<string | null>(null);
@@ -171,6 +173,7 @@ export default function ClientGame({ mode = "offline" }: ClientGameProps) {
             height={dimensions.height} 
             onPlayerNameChange={handleNameChange}
             forceOnlineMode={isMultiplayer}
+            inviteCode={isMultiplayer ? roomCode : undefined}
           />
         </Suspense>
       </main>
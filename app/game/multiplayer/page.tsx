@@ -5,10 +5,18 @@ export const metadata = {
   description: "Play against others in this multiplayer snake game inspired by Slither.io",
 };
 
-export default function MultiplayerGamePage() {
+interface MultiplayerGamePageProps {
+  searchParams: Promise<{ room?: string | string[] }>;
+}
+
+export default async function MultiplayerGamePage({ searchParams }: MultiplayerGamePageProps) {
+  // Invite links look like /game/multiplayer?room=CODE
+  const { room } = await searchParams;
+  const roomCode = typeof room === "string" && room.trim() ? room.trim().toUpperCase() : undefined;
+
   return (
     <div className="fixed inset-0 w-full h-full overflow-hidden">
-      <ClientGame mode="multiplayer" />
+      <ClientGame mode="multiplayer" roomCode={roomCode} />
     </div>
   );
 } 
\ No newline at end of file
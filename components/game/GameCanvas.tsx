@@ -3,16 +3,24 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useTheme } from "next-themes";
 import { GameEngine, GameEventType } from "@/lib/game/engine";
+import { FixedTimestepLoop } from "@/lib/game/loop";
+import { GameRules, DEFAULT_RULES } from "@/lib/game/rules";
+import { BotPopulation } from "@/lib/game/bot-population";
 import { GameRenderer } from "@/components/game/GameRenderer";
-import { Snake, PlayerInput, GameState } from "@/lib/game/models";
+import { Snake, PlayerInput, GameState, MinimapSummary } from "@/lib/game/models";
 import { v4 as uuidv4 } from "uuid";
-import { gameSocketClient } from "@/lib/game/socket-client";
+import { gameSocketClient, PlayerKillEvent, HeadOnCollisionEvent, RespawnRefusedEvent } from "@/lib/game/socket-client";
+import { ProtocolVersionError } from "@/lib/game/protocol";
+import { PredictionController } from "@/lib/game/prediction";
+import { SnapshotInterpolator } from "@/lib/game/interpolation";
 import { soundManager } from "@/lib/audio/SoundManager";
 import { gameStatsClient, GameStats, testDatabaseConnection, displayStats } from "@/lib/game/stats-client";
 import { createBrowserClient } from "@supabase/ssr";
 import { Users, X, Info, ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from "lucide-react";
 import Leaderboard from './Leaderboard';
 import ChatBox from './ChatBox';
+import PrivateRoomPanel from './PrivateRoomPanel';
+import GameSetupPanel, { DEFAULT_OFFLINE_BOTS, OfflineBotSettings } from './GameSetupPanel';
 import SoundControl from './SoundControl';
 import { useRouter } from "next/navigation";
 
@@ -21,11 +29,26 @@ interface GameCanvasProps {
   height?: number;
   onPlayerNameChange?: (name: string) => void;
   forceOnlineMode?: boolean;
+  inviteCode?: string; // Room to join in multiplayer instead of matchmaking
 }
 
 // Constants for game configuration
 const MAP_WIDTH = 6000; // Larger map for more exploration
 const MAP_HEIGHT = 6000;
+const ROUND_IN_PROGRESS_MESSAGE = "Round in progress, spectating until the next one"; // Offline games, servers send their own
+
+// The local player's snake in a state. A dead snake is taken off the map once
+// its body has dissolved, so fall back to the last one seen (as an empty
+// corpse) to keep the game over screen up until the player respawns.
+const findOwnSnake = (state: GameState, playerId: string | null, lastSeen: { current: Snake | null }): Snake | undefined => {
+  const snake = state.snakes.find(s => s.id === playerId);
+  if (snake) {
+    lastSeen.current = snake;
+    return snake;
+  }
+  const last = lastSeen.current;
+  return last && last.id === playerId ? { ...last, alive: false, segments: [], corpseFade: 0 } : undefined;
+};
 
 // Tutorial Overlay Component
 const TutorialOverlay = ({ onClose }: { onClose: () => void }) => {
@@ -79,7 +102,8 @@ const TutorialOverlay = ({ onClose }: { onClose: () => void }) => {
             </div>
             <p className="text-gray-300 text-sm">
               Press Space when your boost meter is full for a temporary speed boost!
-              Collect food to charge your boost meter.
+              Collect food to charge your boost meter. In sprint games, hold Space
+              (or touch with a second finger) to sprint at the cost of your tail.
             </p>
           </div>
           
@@ -139,7 +163,8 @@ const GameCanvas = ({
   width = 800, 
   height = 600,
   onPlayerNameChange,
-  forceOnlineMode = false
+  forceOnlineMode = false,
+  inviteCode
 }: GameCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { theme } = useTheme();
@@ -163,6 +188,26 @@ const GameCanvas = ({
   const [playerCount, setPlayerCount] = useState(0);
   const [killFeed, setKillFeed] = useState<{message: string, timestamp: number, isError?: boolean, animateClass?: string}[]>([]);
   const [showTutorial, setShowTutorial] = useState(false);
+  const [minimapSummary, setMinimapSummary] = useState<MinimapSummary | null>(null);
+  const [roomCode, setRoomCode] = useState<string | null>(null);
+  const [isPrivateRoom, setIsPrivateRoom] = useState(false);
+  const [showRoomPanel, setShowRoomPanel] = useState(false);
+  // Rules for offline games, picked in the setup panel
+  const [offlineRules, setOfflineRules] = useState<Partial<GameRules>>({});
+  const [showSetupPanel, setShowSetupPanel] = useState(false);
+  const [offlineBots, setOfflineBots] = useState<OfflineBotSettings>(DEFAULT_OFFLINE_BOTS);
+  // Joined a battle royale round that was already under way, so no snake until the next one
+  const [isSpectating, setIsSpectating] = useState(false);
+  // Keeps the offline game stocked with bots, the same manager servers use for public rooms
+  const botPopulationRef = useRef<BotPopulation | null>(null);
+  // Predicts the local snake between server snapshots in online mode
+  const predictionRef = useRef<PredictionController | null>(null);
+  // Buffers snapshots so remote snakes move smoothly between server ticks
+  const interpolatorRef = useRef<SnapshotInterpolator>(new SnapshotInterpolator());
+  // Set once the invite code turned out not to work, so reconnects use matchmaking
+  const inviteFailedRef = useRef(false);
+  // Last state of the local snake, for when its corpse has left the map
+  const lastOwnSnakeRef = useRef<Snake | null>(null);
   
   // Update canvas size on window resize - use the entire viewport
   useEffect(() => {
@@ -236,9 +281,11 @@ const GameCanvas = ({
     ctx.scale(dpr, dpr);
 
     // Initialize game engine and renderer
+    // Online the engine only holds the local view, the server decides the rules
     const engine = new GameEngine(
       forceOnlineMode ? MAP_WIDTH*1.5 : MAP_WIDTH, 
-      forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT
+      forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT,
+      forceOnlineMode ? {} : offlineRules
     );
     const renderer = new GameRenderer(
       ctx,
@@ -248,10 +295,21 @@ const GameCanvas = ({
       forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT,
       theme === "dark"
     );
+    renderer.setRules(engine.getRules());
 
     // Create a player for local mode (default)
     const id = engine.addPlayer(playerName);
     
+    // Offline opponents, replaced a few seconds after they die
+    botPopulationRef.current = !forceOnlineMode && offlineBots.count > 0
+      ? new BotPopulation(engine, {
+          targetPopulation: offlineBots.count + 1, // The bots plus the player
+          respawnDelay: 3000,
+          difficulties: [offlineBots.difficulty],
+        }, engine.getRandom())
+      : null;
+    botPopulationRef.current?.update(1, Date.now());
+    
     setGameEngine(engine);
     setGameRenderer(renderer);
     setPlayerId(id);
@@ -295,7 +353,7 @@ const GameCanvas = ({
       
       clearTimeout(controlsTimer);
     };
-  }, [playerName, forceOnlineMode]);
+  }, [playerName, forceOnlineMode, offlineRules, offlineBots]);
 
   // Update canvas size when window resizes
   useEffect(() => {
@@ -317,6 +375,28 @@ const GameCanvas = ({
     gameRenderer.updateDimensions(canvasSize.width, canvasSize.height);
   }, [canvasSize, gameRenderer]);
 
+  // Report our screen size to the server so it only sends what we can see
+  useEffect(() => {
+    if (!forceOnlineMode) return;
+    gameSocketClient.setViewport(canvasSize);
+  }, [canvasSize, forceOnlineMode]);
+
+  // The server culls the game state to our surroundings, so the minimap uses its own summary
+  useEffect(() => {
+    if (!forceOnlineMode) return;
+    
+    const handleMinimapUpdate = (summary: MinimapSummary) => {
+      setMinimapSummary(summary);
+      gameRenderer?.setMinimapSummary(summary);
+    };
+    
+    gameSocketClient.addMinimapListener(handleMinimapUpdate);
+    
+    return () => {
+      gameSocketClient.removeMinimapListener(handleMinimapUpdate);
+    };
+  }, [forceOnlineMode, gameRenderer]);
+
   // Function to attempt connection to the game server (only for multiplayer mode)
   const tryConnectToServer = () => {
     setIsConnecting(true);
@@ -328,7 +408,9 @@ const GameCanvas = ({
     gameSocketClient.addConnectionListener((connected) => {
       if (connected) {
         setIsOnlineMode(true);
-        gameSocketClient.joinGame(playerName);
+        // Go back to the room we were in after a reconnect, or the one we were invited to
+        const invite = inviteFailedRef.current ? undefined : inviteCode;
+        gameSocketClient.joinGame(playerName, gameSocketClient.getRoomCode() || invite);
         console.log("Connected to server - running in multiplayer (server-side authority) mode");
       } else {
         setIsOnlineMode(false);
@@ -349,7 +431,9 @@ const GameCanvas = ({
       setKillFeed(prev => [
         ...prev, 
         { 
-          message: "⚠️ Multiplayer connection failed. Running in offline mode.", 
+          message: error instanceof ProtocolVersionError
+            ? `⚠️ ${error.message}`
+            : "⚠️ Multiplayer connection failed. Running in offline mode.", 
           timestamp: Date.now(),
           isError: true
         }
@@ -358,14 +442,46 @@ const GameCanvas = ({
     
     // Set up player joined listener
     gameSocketClient.addPlayerJoinedListener((data) => {
+      interpolatorRef.current.clear();
+      // New snake, maybe new rules: the next snapshot starts a fresh predictor
+      predictionRef.current = null;
+      setIsSpectating(false);
       setPlayerId(data.playerId);
+      setRoomCode(data.roomCode);
+      setIsPrivateRoom(data.isPrivate);
+      
+      // Keep the invite link in the address bar so a refresh lands in the same room
+      if (data.isPrivate) {
+        window.history.replaceState(null, "", `/game/multiplayer?room=${data.roomCode}`);
+      }
+    });
+    
+    // The room we asked for is gone or full
+    gameSocketClient.addJoinErrorListener((data) => {
+      if (!data.roomCode) {
+        setKillFeed(prev => [
+          ...prev,
+          { message: `⚠️ ${data.message}`, timestamp: Date.now(), isError: true }
+        ]);
+        return;
+      }
+      
+      // A remembered room or invite that didn't work out, play in a public room instead
+      if (data.roomCode === inviteCode) {
+        inviteFailedRef.current = true;
+      }
+      setRoomCode(null);
+      window.history.replaceState(null, "", "/game/multiplayer");
+      setKillFeed(prev => [
+        ...prev,
+        { message: `⚠️ ${data.message}. Finding you another game...`, timestamp: Date.now(), isError: true }
+      ]);
+      gameSocketClient.joinGame(playerName);
     });
     
-    // Set up game state listener with client-side prediction
-    let lastServerUpdate = Date.now();
+    // Set up game state listener
     gameSocketClient.addGameStateListener((state) => {
-      // Record time of this server update for prediction calculations
-      lastServerUpdate = Date.now();
+      interpolatorRef.current.push(state, performance.now());
       
       // Determine if food was collected by comparing food counts
       if (gameState && state.foods.length < gameState.foods.length) {
@@ -383,46 +499,6 @@ const GameCanvas = ({
       
       setGameState(state);
     });
-    
-    // Set up kill feed listener (multiplayer only)
-    const handleKillEvent = (data: any) => {
-      // Create a meaningful kill message
-      let message = "";
-      
-      if (data.killerName && data.victimName) {
-        // New format from server with more details
-        message = `${data.killerName} eliminated ${data.victimName}`;
-      } else {
-        // Fallback to old format
-        message = `${data.victimName} was eliminated`;
-      }
-      
-      // Add the new kill message to the feed with animation class
-      setKillFeed(prev => [...prev, { message, timestamp: Date.now(), animateClass: 'animate-fadeOut' }]);
-      
-      // Remove old messages after 6 seconds
-      setTimeout(() => {
-        setKillFeed(prev => {
-          if (prev.length > 0) {
-            const [oldest, ...rest] = prev;
-            // Don't remove error messages automatically
-            if (oldest.isError) {
-              return prev;
-            }
-            return rest;
-          }
-          return prev;
-        });
-      }, 6000);
-    };
-    
-    // Add kill event listener (multiplayer only)
-    gameSocketClient.addKillListener(handleKillEvent);
-    
-    // Clean up function will be called when component unmounts or dependencies change
-    return () => {
-      gameSocketClient.removeKillListener(handleKillEvent);
-    };
   };
 
   // Handle name change
@@ -511,8 +587,11 @@ const GameCanvas = ({
 
       // Update player direction
       if (isOnlineMode) {
-        // Send direction to server
-        gameSocketClient.sendInput(direction);
+        // Send direction to server and apply it locally without waiting for the reply
+        const seq = gameSocketClient.sendInput(direction);
+        if (seq !== null) {
+          predictionRef.current?.applyInput(seq, direction);
+        }
       } else if (gameEngine) {
         // Update local game engine
         const input: PlayerInput = {
@@ -558,7 +637,10 @@ const GameCanvas = ({
       
       // Update player direction
       if (isOnlineMode) {
-        gameSocketClient.sendInput(direction);
+        const seq = gameSocketClient.sendInput(direction);
+        if (seq !== null) {
+          predictionRef.current?.applyInput(seq, direction);
+        }
       } else if (gameEngine) {
         const input: PlayerInput = {
           id: playerId,
@@ -568,16 +650,44 @@ const GameCanvas = ({
       }
     };
 
+    // A second finger on the screen boosts, lifting it stops a sprint
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      e.preventDefault();
+      
+      if (isOnlineMode) {
+        gameSocketClient.activateBoost();
+      } else if (gameEngine) {
+        gameEngine.activateBoost(playerId);
+      }
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length >= 2) return;
+      
+      if (isOnlineMode) {
+        gameSocketClient.stopBoost();
+      } else if (gameEngine) {
+        gameEngine.stopBoost(playerId);
+      }
+    };
+
     const canvas = canvasRef.current;
     if (canvas) {
       canvas.addEventListener("mousemove", handleMouseMove);
       canvas.addEventListener("touchmove", handleTouchMove, { passive: false });
+      canvas.addEventListener("touchstart", handleTouchStart, { passive: false });
+      canvas.addEventListener("touchend", handleTouchEnd);
+      canvas.addEventListener("touchcancel", handleTouchEnd);
     }
 
     return () => {
       if (canvas) {
         canvas.removeEventListener("mousemove", handleMouseMove);
         canvas.removeEventListener("touchmove", handleTouchMove);
+        canvas.removeEventListener("touchstart", handleTouchStart);
+        canvas.removeEventListener("touchend", handleTouchEnd);
+        canvas.removeEventListener("touchcancel", handleTouchEnd);
       }
     };
   }, [isInitialized, gameEngine, playerId, isOnlineMode, gameState]);
@@ -669,6 +779,12 @@ const GameCanvas = ({
 
     // Add event listeners for sound effects
     const handleGameEvent = (event: GameEventType, data?: any) => {
+      // Impacts show up wherever they happen
+      if (event === 'headOnCollision') {
+        showHeadOnCollision(data);
+        return;
+      }
+      
       if (data?.playerId !== playerId) return; // Only play sounds for the player's events
       
       switch (event) {
@@ -756,28 +872,32 @@ const GameCanvas = ({
     
     gameEngine.addEventListener(handleGameEvent);
     
-    // Add keyboard event listener for boost activation
+    // Add keyboard event listeners for boost: press to boost, release to stop sprinting
     const handleKeyDown = (e: KeyboardEvent) => {
       // Only handle spacebar key when the game canvas is focused
       if (e.code === 'Space') {
         e.preventDefault(); // Prevent default spacebar behavior (like scrolling)
         e.stopPropagation(); // Stop event from bubbling up
         
-        // Get the current player state to check if boost is available
-        const state = gameEngine.getState();
-        const playerSnake = state.snakes.find(snake => snake.id === playerId);
-        
-        if (playerSnake && playerSnake.alive && playerSnake.boostMeter >= 100 && !playerSnake.isBoosting) {
-          // Only activate boost if meter is full and not already boosting
+        // The engine checks whether this snake can boost right now
+        if (!e.repeat) {
           gameEngine.activateBoost(playerId);
         }
       }
     };
     
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        e.preventDefault();
+        gameEngine.stopBoost(playerId);
+      }
+    };
+    
     // Use the canvas as the event target instead of window for more specific control
     const canvas = canvasRef.current;
     if (canvas) {
       canvas.addEventListener('keydown', handleKeyDown);
+      canvas.addEventListener('keyup', handleKeyUp);
       // Make the canvas focusable
       canvas.tabIndex = 1; 
       // Focus the canvas on load
@@ -787,17 +907,21 @@ const GameCanvas = ({
     let lastTime = 0;
     let animationFrameId: number;
 
+    // Simulate in fixed steps so the game plays the same at any frame rate
+    const simulation = new FixedTimestepLoop(step => gameEngine.update(step));
+
     const gameLoop = (timestamp: number) => {
       // Calculate delta time
       const deltaTime = lastTime > 0 ? timestamp - lastTime : 0;
       lastTime = timestamp;
 
       // Update game state
-      gameEngine.update(deltaTime);
+      simulation.advance(deltaTime);
+      botPopulationRef.current?.update(1, Date.now());
       
       // Get the updated state
       const state = gameEngine.getState();
-      const playerSnake = state.snakes.find(snake => snake.id === playerId) as Snake;
+      const playerSnake = findOwnSnake(state, playerId, lastOwnSnakeRef);
       
       // Center the view on the player's snake
       if (playerSnake && playerSnake.segments.length > 0) {
@@ -821,6 +945,7 @@ const GameCanvas = ({
       gameEngine.removeEventListener(handleGameEvent);
       if (canvas) {
         canvas.removeEventListener('keydown', handleKeyDown);
+        canvas.removeEventListener('keyup', handleKeyUp);
       }
       if (playerId && gameEngine) {
         gameEngine.removePlayer(playerId);
@@ -834,16 +959,22 @@ const GameCanvas = ({
     if (!isOnlineMode) return;
     if (!gameRenderer || !gameState) return;
 
-    // Add keyboard event listener for boost activation in online mode
+    // Add keyboard event listeners for boost in online mode, the server decides if it starts
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.code === 'Space' && playerId) {
         e.preventDefault(); // Prevent default spacebar behavior
         e.stopPropagation(); // Stop event from bubbling up
         
-        // For online mode, we would send a message to the server
-        // This would be implemented when server-side boost is supported
-        // For now, we can add a placeholder to show it's being captured
-        console.log('Boost activation requested in online mode');
+        if (!e.repeat) {
+          gameSocketClient.activateBoost();
+        }
+      }
+    };
+    
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && playerId) {
+        e.preventDefault();
+        gameSocketClient.stopBoost();
       }
     };
     
@@ -851,12 +982,25 @@ const GameCanvas = ({
     const canvas = canvasRef.current;
     if (canvas) {
       canvas.addEventListener('keydown', handleKeyDown);
+      canvas.addEventListener('keyup', handleKeyUp);
       // Make the canvas focusable
       canvas.tabIndex = 1;
       // Focus the canvas on load
       canvas.focus();
     }
     
+    // The boost HUD depends on the room's rules
+    gameRenderer.setRules(gameSocketClient.getRules() || DEFAULT_RULES);
+    
+    // Rebase the predicted snake on the new authoritative state
+    const serverSnake = findOwnSnake(gameState, playerId, lastOwnSnakeRef);
+    if (serverSnake) {
+      if (!predictionRef.current) {
+        predictionRef.current = new PredictionController(gameState.width, gameState.height, gameSocketClient.getRules() || {});
+      }
+      predictionRef.current.reconcile(serverSnake, gameSocketClient.getInputAck());
+    }
+    
     let animationFrameId: number;
     let lastTime = 0;
 
@@ -865,8 +1009,18 @@ const GameCanvas = ({
       const deltaTime = lastTime > 0 ? timestamp - lastTime : 0;
       lastTime = timestamp;
       
-      // Render the game state received from the server
-      const playerSnake = gameState.snakes.find(snake => snake.id === playerId);
+      // Swap in the predicted local snake so our own movement has no input lag
+      const prediction = serverSnake ? predictionRef.current : null;
+      prediction?.advance(timestamp);
+      const predictedSnake = prediction ? prediction.getSnake() : null;
+      
+      const playerSnake = predictedSnake || serverSnake;
+      
+      // Remote snakes are drawn slightly in the past, blended between snapshots
+      const displayState = interpolatorRef.current.sample(performance.now(), playerId) || gameState;
+      const renderState = predictedSnake
+        ? { ...displayState, snakes: displayState.snakes.map(snake => snake.id === playerId ? predictedSnake : snake) }
+        : displayState;
       
       // Center the view on the player's snake
       if (playerSnake && playerSnake.segments.length > 0) {
@@ -875,7 +1029,7 @@ const GameCanvas = ({
       }
       
       // Pass deltaTime to the renderer for particle animations
-      gameRenderer.render(gameState, playerSnake, deltaTime);
+      gameRenderer.render(renderState, playerSnake, deltaTime);
 
       // Request next frame
       animationFrameId = requestAnimationFrame(renderLoop);
@@ -889,6 +1043,7 @@ const GameCanvas = ({
       cancelAnimationFrame(animationFrameId);
       if (canvas) {
         canvas.removeEventListener('keydown', handleKeyDown);
+        canvas.removeEventListener('keyup', handleKeyUp);
       }
     };
   }, [gameRenderer, gameState, playerId, isOnlineMode]);
@@ -904,25 +1059,22 @@ const GameCanvas = ({
       let playerSnake: Snake | undefined;
       
       if (isOnlineMode && gameState) {
-        playerSnake = gameState.snakes.find(snake => snake.id === playerId);
+        playerSnake = findOwnSnake(gameState, playerId, lastOwnSnakeRef);
       } else if (gameEngine) {
-        const state = gameEngine.getState();
-        playerSnake = state.snakes.find(snake => snake.id === playerId);
+        playerSnake = findOwnSnake(gameEngine.getState(), playerId, lastOwnSnakeRef);
       }
       
-      if (playerSnake && !playerSnake.alive) {
+      if ((playerSnake && !playerSnake.alive) || isSpectating) {
+        // Come back as the same player, session totals carry over. Online the
+        // clock restarts once the server confirms the respawn.
         if (isOnlineMode) {
-          // For online mode, rejoin the game
-          gameSocketClient.disconnect();
-          setTimeout(() => {
-            gameSocketClient.connect();
-            gameSocketClient.joinGame(playerName);
-          }, 500);
+          gameSocketClient.respawn();
         } else if (gameEngine) {
-          // For local mode, create a new player
-          gameEngine.removePlayer(playerId);
-          const newId = gameEngine.addPlayer(playerName);
-          setPlayerId(newId);
+          if (gameEngine.respawnPlayer(playerId)) {
+            setGameStartTime(Date.now());
+          } else if (gameEngine.isRoundInProgress()) {
+            showRespawnRefused(ROUND_IN_PROGRESS_MESSAGE);
+          }
         }
       }
     };
@@ -937,7 +1089,7 @@ const GameCanvas = ({
         canvas.removeEventListener("click", handleClick);
       }
     };
-  }, [isInitialized, gameEngine, playerId, isOnlineMode, gameState, playerName]);
+  }, [isInitialized, gameEngine, playerId, isOnlineMode, gameState, playerName, isSpectating]);
 
   // Handle zoom in/out buttons
   const handleZoomIn = () => {
@@ -962,6 +1114,22 @@ const GameCanvas = ({
   }, [playerId, gameEngine]);
 
   // Handle player death event
+  // Say why clicking didn't bring the snake back, once, until it's dismissed
+  const showRespawnRefused = (message: string) => {
+    setKillFeed(prev => prev.some(item => item.message === `⚠️ ${message}`)
+      ? prev
+      : [...prev, { message: `⚠️ ${message}`, timestamp: Date.now(), isError: true }]);
+  };
+
+  // Particles where two heads met, and a sound if we came out on top
+  const showHeadOnCollision = (data: HeadOnCollisionEvent) => {
+    gameRenderer?.addImpactEffect(data.at);
+    
+    if (data.winnerId && data.winnerId === playerId) {
+      soundManager.playSound('special-food'); // Use existing sound for now
+    }
+  };
+
   const handlePlayerDeath = () => {
     if (!playerId || !gameStartTime) return;
     
@@ -1158,55 +1326,94 @@ const GameCanvas = ({
     }
   }, [isOnlineMode, forceOnlineMode, gameState, playerId]);
 
-  // Update effects for multiplayer UI
+  // Kill feed and kill rewards (multiplayer only). The server broadcasts
+  // every kill in the room once, our own kills included.
   useEffect(() => {
-    if (isOnlineMode) {
-      // Set up kill feed listener
-      const handleKillEvent = (data: any) => {
-        // Create a meaningful kill message
-        let message = "";
-        
-        if (data.killerName && data.victimName) {
-          // New format from server with more details
-          message = `${data.killerName} eliminated ${data.victimName}`;
-        } else {
-          // Fallback to old format
-          message = `${data.victimName} was eliminated`;
-        }
-        
-        // Add the new kill message to the feed with animation class
-        setKillFeed(prev => [...prev, { message, timestamp: Date.now(), animateClass: 'animate-fadeOut' }]);
-        
-        // Remove old messages after 6 seconds
-        setTimeout(() => {
-          setKillFeed(prev => {
-            if (prev.length > 0) {
-              const [oldest, ...rest] = prev;
-              // Don't remove error messages automatically
-              if (oldest.isError) {
-                return prev;
-              }
-              return rest;
-            }
-            return prev;
-          });
-        }, 6000);
-      };
+    if (!isOnlineMode) return;
+    
+    const handleKillEvent = (data: PlayerKillEvent) => {
+      const message = `${data.killerName} eliminated ${data.victimName}`;
       
-      // Add kill event listener
-      gameSocketClient.addKillListener(handleKillEvent);
+      // Add the new kill message to the feed with animation class
+      setKillFeed(prev => [...prev, { message, timestamp: Date.now(), animateClass: 'animate-fadeOut' }]);
       
-      // Update player count based on game state
-      if (gameState) {
-        setPlayerCount(gameState.snakes.filter(snake => snake.alive).length);
-      }
+      // Remove old messages after 6 seconds
+      setTimeout(() => {
+        setKillFeed(prev => {
+          if (prev.length > 0) {
+            const [oldest, ...rest] = prev;
+            // Don't remove error messages automatically
+            if (oldest.isError) {
+              return prev;
+            }
+            return rest;
+          }
+          return prev;
+        });
+      }, 6000);
       
-      // Clean up event listener
-      return () => {
-        gameSocketClient.removeKillListener(handleKillEvent);
-      };
+      if (data.killerId === playerId) {
+        // Play kill sound
+        soundManager.playSound('special-food'); // Use existing sound for now
+        
+        // Track First Blood achievement
+        gameStatsClient.unlockAchievement({
+          name: "First Blood",
+          description: "Defeat your first opponent"
+        }).catch(err => console.error("Error unlocking achievement:", err));
+      }
+    };
+    
+    gameSocketClient.addKillListener(handleKillEvent);
+    
+    // Clean up event listener
+    return () => {
+      gameSocketClient.removeKillListener(handleKillEvent);
+    };
+  }, [isOnlineMode, playerId]);
+
+  // Head-on collisions in the room (multiplayer only)
+  useEffect(() => {
+    if (!isOnlineMode) return;
+    
+    gameSocketClient.addHeadOnListener(showHeadOnCollision);
+    return () => {
+      gameSocketClient.removeHeadOnListener(showHeadOnCollision);
+    };
+  }, [isOnlineMode, playerId, gameRenderer]);
+
+  // Answers to respawn requests (multiplayer only)
+  useEffect(() => {
+    if (!isOnlineMode) return;
+    
+    const handleRespawn = () => {
+      setIsSpectating(false);
+      setGameStartTime(Date.now());
+    };
+    const handleRespawnRefused = (data: RespawnRefusedEvent) => {
+      setIsSpectating(true);
+      showRespawnRefused(data.message);
+    };
+    
+    gameSocketClient.addRespawnListener(handleRespawn);
+    gameSocketClient.addRespawnRefusedListener(handleRespawnRefused);
+    return () => {
+      gameSocketClient.removeRespawnListener(handleRespawn);
+      gameSocketClient.removeRespawnRefusedListener(handleRespawnRefused);
+    };
+  }, [isOnlineMode]);
+
+  // Update player count for the multiplayer UI
+  useEffect(() => {
+    if (!isOnlineMode) return;
+    
+    // The game state is culled, so prefer the whole-map summary
+    if (minimapSummary) {
+      setPlayerCount(minimapSummary.snakes.length);
+    } else if (gameState) {
+      setPlayerCount(gameState.snakes.filter(snake => snake.alive).length);
     }
-  }, [isOnlineMode, gameState]);
+  }, [isOnlineMode, gameState, minimapSummary]);
 
   // Show tutorial for first-time players
   useEffect(() => {
@@ -1224,6 +1431,10 @@ const GameCanvas = ({
     setShowTutorial(prev => !prev);
   }, []);
 
+  // World size for the DOM minimap, rooms can be smaller or larger than the default
+  const mapWidth = gameState?.width ?? (forceOnlineMode ? MAP_WIDTH*1.5 : MAP_WIDTH);
+  const mapHeight = gameState?.height ?? (forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT);
+
   return (
     <div className="w-full h-full flex flex-col relative overflow-hidden">
       {/* Header with player name */}
@@ -1238,6 +1449,7 @@ const GameCanvas = ({
             <div className="ml-2 flex items-center space-x-1 bg-indigo-600/50 px-2 py-1 rounded-full text-white text-xs">
               <Users size={12} />
               <span>Multiplayer</span>
+              {roomCode && <span className="font-mono opacity-80">· {roomCode}</span>}
             </div>
           )}
         </div>
@@ -1325,6 +1537,47 @@ const GameCanvas = ({
                 onClose={() => setShowChat(false)}
               />
             )}
+            
+            {/* Toggle private room panel */}
+            <button 
+              onClick={() => setShowRoomPanel(!showRoomPanel)}
+              className="absolute bottom-32 right-4 p-2 bg-black/70 text-white rounded-md z-10 hover:bg-black/90 transition-colors"
+            >
+              {isPrivateRoom ? "Invite Friends" : "Private Room"}
+            </button>
+            
+            {/* Private room settings and invite link */}
+            <PrivateRoomPanel
+              visible={showRoomPanel}
+              onClose={() => setShowRoomPanel(false)}
+              playerName={playerName}
+              roomCode={roomCode}
+              isPrivate={isPrivateRoom}
+            />
+          </>
+        )}
+
+        {/* Offline game setup */}
+        {!isOnlineMode && !forceOnlineMode && (
+          <>
+            <button 
+              onClick={() => setShowSetupPanel(!showSetupPanel)}
+              className="absolute bottom-20 right-4 p-2 bg-black/70 text-white rounded-md z-10 hover:bg-black/90 transition-colors"
+            >
+              Game Setup
+            </button>
+            
+            <GameSetupPanel
+              visible={showSetupPanel}
+              onClose={() => setShowSetupPanel(false)}
+              rules={offlineRules}
+              bots={offlineBots}
+              onStart={(rules, bots) => {
+                setShowSetupPanel(false);
+                setOfflineRules(rules);
+                setOfflineBots(bots);
+              }}
+            />
           </>
         )}
 
@@ -1400,10 +1653,29 @@ const GameCanvas = ({
             
             {/* Display map content regardless of gameState */}
             <>
+              {/* Food density from the server summary (multiplayer) */}
+              {isOnlineMode && minimapSummary && minimapSummary.foodDensity.cells.map((count, i) => {
+                const { cols, rows } = minimapSummary.foodDensity;
+                if (count === 0) return null;
+                return (
+                  <div 
+                    key={`density-${i}`}
+                    className="absolute bg-yellow-400 pointer-events-none"
+                    style={{ 
+                      left: `${(i % cols) / cols * 100}%`, 
+                      top: `${Math.floor(i / cols) / rows * 100}%`,
+                      width: `${100 / cols}%`,
+                      height: `${100 / rows}%`,
+                      opacity: Math.min(0.4, 0.05 + count / 50)
+                    }}
+                  ></div>
+                );
+              })}
+              
               {/* Food dots */}
-              {(gameState?.foods || []).map((food) => {
-                const x = (food.position.x / (forceOnlineMode ? MAP_WIDTH*1.5 : MAP_WIDTH)) * 100;
-                const y = (food.position.y / (forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT)) * 100;
+              {(isOnlineMode && minimapSummary ? [] : gameState?.foods || []).map((food) => {
+                const x = (food.position.x / mapWidth) * 100;
+                const y = (food.position.y / mapHeight) * 100;
                 return (
                   <div 
                     key={food.id}
@@ -1418,9 +1690,12 @@ const GameCanvas = ({
               })}
               
               {/* Power-ups */}
-              {(gameState?.powerUps || []).map((powerUp) => {
-                const x = (powerUp.position.x / (forceOnlineMode ? MAP_WIDTH*1.5 : MAP_WIDTH)) * 100;
-                const y = (powerUp.position.y / (forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT)) * 100;
+              {(isOnlineMode && minimapSummary
+                ? minimapSummary.powerUps.map((position, i) => ({ id: `summary-${i}`, position }))
+                : gameState?.powerUps || []
+              ).map((powerUp) => {
+                const x = (powerUp.position.x / mapWidth) * 100;
+                const y = (powerUp.position.y / mapHeight) * 100;
                 return (
                   <div 
                     key={powerUp.id}
@@ -1435,10 +1710,13 @@ const GameCanvas = ({
               })}
               
               {/* Snakes - Get from gameEngine if not in online mode */}
-              {(gameState?.snakes || (gameEngine ? gameEngine.getState().snakes : [])).filter(snake => snake.alive).map((snake) => {
+              {(isOnlineMode && minimapSummary
+                ? minimapSummary.snakes.map(snake => ({ id: snake.id, alive: true, segments: [{ x: snake.x, y: snake.y }] }))
+                : gameState?.snakes || (gameEngine ? gameEngine.getState().snakes : [])
+              ).filter(snake => snake.alive).map((snake) => {
                 const head = snake.segments[0];
-                const x = (head.x / (forceOnlineMode ? MAP_WIDTH*1.5 : MAP_WIDTH)) * 100;
-                const y = (head.y / (forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT)) * 100;
+                const x = (head.x / mapWidth) * 100;
+                const y = (head.y / mapHeight) * 100;
                 const isPlayerSnake = snake.id === playerId;
                 return (
                   <div 
@@ -1458,10 +1736,10 @@ const GameCanvas = ({
                 <div
                   className="absolute border-2 border-white/50 rounded pointer-events-none"
                   style={{
-                    left: `${(playerSnake.segments[0].x / (forceOnlineMode ? MAP_WIDTH*1.5 : MAP_WIDTH)) * 100}%`,
-                    top: `${(playerSnake.segments[0].y / (forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT)) * 100}%`,
-                    width: `${(canvasSize.width / (forceOnlineMode ? MAP_WIDTH*1.5 : MAP_WIDTH)) * 100 / zoom}%`,
-                    height: `${(canvasSize.height / (forceOnlineMode ? MAP_HEIGHT*1.5 : MAP_HEIGHT)) * 100 / zoom}%`,
+                    left: `${(playerSnake.segments[0].x / mapWidth) * 100}%`,
+                    top: `${(playerSnake.segments[0].y / mapHeight) * 100}%`,
+                    width: `${(canvasSize.width / mapWidth) * 100 / zoom}%`,
+                    height: `${(canvasSize.height / mapHeight) * 100 / zoom}%`,
                     transform: 'translate(-50%, -50%)'
                   }}
                 ></div>
@@ -4,9 +4,19 @@ import {
   Food, 
   Point,
   PowerUp,
-  PowerUpType
+  MinimapSummary,
+  SafeZone
 } from "../../lib/game/models";
+import { POWER_UPS, POWER_UP_LIFETIME, getSnakeOpacity } from "../../lib/game/powerups";
 import { TrailSystem } from "../../lib/game/trail";
+import { ParticleSystem } from "../../lib/game/particles";
+import { MIN_SPRINT_LENGTH } from "../../lib/game/engine";
+import { GameRules, DEFAULT_RULES } from "../../lib/game/rules";
+
+// The local player always sees their own snake at least this clearly, even when invisible
+const MIN_OWN_SNAKE_OPACITY = 0.4;
+// Dead snakes start out this faded and disappear as their body dissolves
+const CORPSE_OPACITY = 0.5;
 
 export class GameRenderer {
   private ctx: CanvasRenderingContext2D;
@@ -22,9 +32,13 @@ export class GameRenderer {
   private nebulae: {x: number, y: number, radius: number, color: string}[] = [];
   private frameCount: number = 0;
   private trailSystem: TrailSystem = new TrailSystem();
+  private particleSystem: ParticleSystem = new ParticleSystem(); // One-off effects like head-on impacts
   private lastFoodCount: number = 0;
   private lastSnakes: Map<string, { alive: boolean, isBoosting: boolean }> = new Map();
   private lastSnakePositions: Map<string, Point[]> = new Map();
+  private minimapSummary: MinimapSummary | null = null;
+  private rules: GameRules = DEFAULT_RULES; // The room's rules, the boost HUD depends on them
+  private gameTime: number = 0; // The engine's clock as of the state being drawn, not this machine's
 
   constructor(
     ctx: CanvasRenderingContext2D,
@@ -105,6 +119,16 @@ export class GameRenderer {
     this.darkMode = darkMode;
   }
 
+  // Use a server-provided summary for the minimap instead of the (culled) game state
+  public setMinimapSummary(summary: MinimapSummary | null): void {
+    this.minimapSummary = summary;
+  }
+
+  // The rules this game is played with, changes what the boost meter shows
+  public setRules(rules: GameRules): void {
+    this.rules = rules;
+  }
+
   // Set zoom level
   public setZoom(zoom: number): void {
     this.zoom = Math.max(0.5, Math.min(2, zoom)); // Limit zoom between 0.5x and 2x
@@ -263,6 +287,22 @@ export class GameRenderer {
     const scaleX = size / this.mapWidth;
     const scaleY = size / this.mapHeight;
     
+    // Battle royale zone, under everything else
+    if (gameState.zone) {
+      this.ctx.save();
+      this.ctx.beginPath();
+      this.ctx.rect(x, y, size, size);
+      this.ctx.clip();
+      this.traceZone(gameState.zone, (px, py) => ({ x: x + px * scaleX, y: y + py * scaleY }), scaleX, 1);
+      this.ctx.restore();
+    }
+    
+    // In multiplayer the game state only covers our surroundings, so draw the summary instead
+    if (this.minimapSummary) {
+      this.drawMinimapSummary(this.minimapSummary, x, y, size, playerSnake);
+      return;
+    }
+    
     // Draw food (as dots)
     for (const food of gameState.foods) {
       this.ctx.fillStyle = food.color;
@@ -317,6 +357,61 @@ export class GameRenderer {
     // View area has been removed as requested
   }
 
+  // Draw the minimap content from a coarse server summary
+  private drawMinimapSummary(summary: MinimapSummary, x: number, y: number, size: number, playerSnake?: Snake): void {
+    const scaleX = size / summary.width;
+    const scaleY = size / summary.height;
+    
+    // Draw food density as faint cells
+    const { cols, rows, cells } = summary.foodDensity;
+    const cellWidth = size / cols;
+    const cellHeight = size / rows;
+    const maxCount = Math.max(1, ...cells);
+    
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const count = cells[row * cols + col];
+        if (count === 0) continue;
+        
+        this.ctx.fillStyle = `rgba(255, 215, 64, ${0.05 + (count / maxCount) * 0.35})`;
+        this.ctx.fillRect(x + col * cellWidth, y + row * cellHeight, cellWidth, cellHeight);
+      }
+    }
+    
+    // Draw the red border zone on minimap
+    this.ctx.strokeStyle = "rgba(255, 0, 0, 0.7)";
+    this.ctx.lineWidth = 3;
+    this.ctx.strokeRect(x, y, size, size);
+    
+    // Draw power-ups
+    this.ctx.fillStyle = "#BA68C8";
+    for (const powerUp of summary.powerUps) {
+      this.ctx.beginPath();
+      this.ctx.arc(x + powerUp.x * scaleX, y + powerUp.y * scaleY, 2.5, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+    
+    // Draw snake heads, bigger snakes get bigger dots
+    for (const snake of summary.snakes) {
+      const isPlayer = playerSnake && snake.id === playerSnake.id;
+      const head = isPlayer && playerSnake.segments.length > 0
+        ? playerSnake.segments[0] // Our own snake is always up to date
+        : snake;
+      const radius = Math.min(5, 1.5 + Math.sqrt(snake.length) / 6);
+      
+      if (isPlayer) {
+        this.ctx.shadowBlur = 4;
+        this.ctx.shadowColor = snake.color;
+      }
+      
+      this.ctx.fillStyle = isPlayer ? "#fff" : snake.color;
+      this.ctx.beginPath();
+      this.ctx.arc(x + head.x * scaleX, y + head.y * scaleY, isPlayer ? radius + 1 : radius, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.shadowBlur = 0;
+    }
+  }
+
   // Helper function to lighten a color
   private lightenColor(color: string, percent: number): string {
     // Only process hex colors
@@ -370,12 +465,17 @@ export class GameRenderer {
   }
 
   // Draw a snake
-  public drawSnake(snake: Snake): void {
-    if (!snake.alive) return;
+  public drawSnake(snake: Snake, isPlayer: boolean = false): void {
+    // Dead snakes are drawn fading out while their body dissolves
+    if (!snake.alive && !snake.corpseFade) return;
 
     const segments = snake.segments;
     if (segments.length === 0) return;
 
+    // Power-ups like ghost and invisibility fade the snake out
+    const opacity = this.getDrawOpacity(snake, isPlayer);
+    if (opacity <= 0) return;
+
     // Check if any part of the snake is visible on screen
     let isVisible = false;
     for (const segment of segments) {
@@ -387,6 +487,8 @@ export class GameRenderer {
     
     if (!isVisible) return;
     
+    this.ctx.globalAlpha = opacity;
+    
     // Scale factor based on snake's scale property
     const scaleFactor = snake.scale || 1;
     
@@ -542,6 +644,23 @@ export class GameRenderer {
       // Reset shadow
       this.ctx.shadowBlur = 0;
     }
+    
+    this.ctx.globalAlpha = 1;
+  }
+
+  // How opaque to draw a snake given its active power-ups, spawn protection
+  // and how far its corpse has dissolved
+  private getDrawOpacity(snake: Snake, isPlayer: boolean): number {
+    if (!snake.alive) {
+      return CORPSE_OPACITY * (snake.corpseFade || 0);
+    }
+    
+    let opacity = getSnakeOpacity(snake);
+    // Blink while the snake can't be hit, e.g. just after respawning
+    if (snake.invulnerableUntil && snake.invulnerableUntil > this.gameTime && Math.floor(Date.now() / 150) % 2 === 0) {
+      opacity *= 0.4;
+    }
+    return isPlayer ? Math.max(opacity, MIN_OWN_SNAKE_OPACITY) : opacity;
   }
 
   // Draw the leaderboard
@@ -605,13 +724,14 @@ export class GameRenderer {
         y
       );
       
-      // Player name
-      this.ctx.fillStyle = "#FFFFFF";
+      // Player name, bots are marked
+      this.ctx.fillStyle = entry.isBot ? "#B0BEC5" : "#FFFFFF";
       this.ctx.fillText(
-        entry.name,
+        entry.isBot ? `${entry.name} 🤖` : entry.name,
         padding + 35,
         y
       );
+      this.ctx.fillStyle = "#FFFFFF";
       
       // Score with glow
       this.ctx.textAlign = "right";
@@ -759,6 +879,17 @@ export class GameRenderer {
       });
     }
     
+    // Forget snakes that have left the map
+    if (this.lastSnakes.size > gameState.snakes.length) {
+      const present = new Set(gameState.snakes.map(snake => snake.id));
+      for (const id of Array.from(this.lastSnakes.keys())) {
+        if (!present.has(id)) {
+          this.lastSnakes.delete(id);
+          this.trailSystem.clearTrail(id);
+        }
+      }
+    }
+    
     // Add trails for all snakes
     for (const snake of gameState.snakes) {
       if (snake.alive) {
@@ -772,6 +903,99 @@ export class GameRenderer {
     this.trailSystem.update(deltaTime);
   }
 
+  // Burst of particles where two snakes collided head-on
+  public addImpactEffect(position: Point): void {
+    this.particleSystem.createDeathEffect(position.x, position.y);
+  }
+
+  // Particles live in world space, so draw them through the camera transform
+  private drawParticles(): void {
+    if (this.particleSystem.particles.length === 0) return;
+
+    this.ctx.save();
+    this.ctx.translate(this.screenWidth / 2, this.screenHeight / 2);
+    this.ctx.scale(this.zoom, this.zoom);
+    this.ctx.translate(-this.cameraX, -this.cameraY);
+    this.particleSystem.draw(this.ctx, this.cameraX, this.cameraY, this.zoom, this.screenWidth, this.screenHeight);
+    this.ctx.restore();
+  }
+
+  // Battle royale zone on the world: everything outside the circle is
+  // tinted red, and the circle it shrinks to next is dashed
+  private drawSafeZone(zone: SafeZone): void {
+    this.traceZone(zone, (x, y) => this.worldToScreen(x, y), this.zoom, 3);
+  }
+  
+  // Draw a safe zone through a world-to-canvas mapping, on the world or the minimap
+  private traceZone(zone: SafeZone, toCanvas: (x: number, y: number) => Point, scale: number, lineWidth: number): void {
+    const centre = toCanvas(zone.x, zone.y);
+    const radius = Math.max(0, zone.radius * scale);
+    const topLeft = toCanvas(0, 0);
+    const bottomRight = toCanvas(this.mapWidth, this.mapHeight);
+    
+    // Shade the map outside the circle
+    this.ctx.fillStyle = "rgba(255, 40, 40, 0.15)";
+    this.ctx.beginPath();
+    this.ctx.rect(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+    this.ctx.moveTo(centre.x + radius, centre.y);
+    this.ctx.arc(centre.x, centre.y, radius, 0, Math.PI * 2);
+    this.ctx.fill("evenodd");
+    
+    // Current boundary
+    this.ctx.strokeStyle = "rgba(255, 80, 80, 0.9)";
+    this.ctx.lineWidth = lineWidth;
+    this.ctx.beginPath();
+    this.ctx.arc(centre.x, centre.y, radius, 0, Math.PI * 2);
+    this.ctx.stroke();
+    
+    // Where it's heading
+    if (zone.nextRadius < zone.radius) {
+      const next = toCanvas(zone.nextX, zone.nextY);
+      this.ctx.strokeStyle = "rgba(255, 255, 255, 0.7)";
+      this.ctx.lineWidth = Math.max(1, lineWidth - 1);
+      this.ctx.setLineDash([lineWidth * 3, lineWidth * 3]);
+      this.ctx.beginPath();
+      this.ctx.arc(next.x, next.y, Math.max(0, zone.nextRadius * scale), 0, Math.PI * 2);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+    }
+  }
+  
+  // Battle royale status at the top of the screen: the round's winner once
+  // it's decided, otherwise the zone's phase and when it next closes in
+  private drawZoneStatus(gameState: GameState): void {
+    const zone = gameState.zone;
+    if (!zone) return;
+    
+    let text: string;
+    let color = "#FFFFFF";
+    if (gameState.winnerId) {
+      const winner = gameState.snakes.find(snake => snake.id === gameState.winnerId) ||
+        gameState.leaderboard.find(entry => entry.id === gameState.winnerId);
+      text = `${winner ? winner.name : "Someone"} wins the round!`;
+      color = "#FFD700";
+    } else if (zone.radius <= 0) {
+      text = "The zone has closed";
+      color = "#FF5050";
+    } else {
+      const now = this.gameTime;
+      if (now < zone.shrinkStartsAt) {
+        text = `Phase ${zone.phase} · zone shrinks in ${Math.ceil((zone.shrinkStartsAt - now) / 1000)}s`;
+      } else {
+        text = `Phase ${zone.phase} · zone closing in`;
+        color = "#FF5050";
+      }
+    }
+    
+    this.ctx.font = "bold 18px Arial";
+    this.ctx.textAlign = "center";
+    this.ctx.fillStyle = color;
+    this.ctx.shadowBlur = 6;
+    this.ctx.shadowColor = color;
+    this.ctx.fillText(text, this.screenWidth / 2, 30);
+    this.ctx.shadowBlur = 0;
+  }
+  
   // Draw danger warning if player is close to the border
   private drawDangerWarning(playerSnake: Snake): void {
     if (!playerSnake || !playerSnake.alive || playerSnake.segments.length === 0) return;
@@ -882,6 +1106,12 @@ export class GameRenderer {
   public drawBoostMeter(playerSnake: Snake): void {
     if (!playerSnake || !playerSnake.alive) return;
     
+    // A sprint has no meter to fill, show it full whenever the snake is long enough to sprint
+    const sprint = this.rules.boostMode === "sprint";
+    const boostMeter = sprint
+      ? (playerSnake.segments.length > MIN_SPRINT_LENGTH ? 100 : 0)
+      : playerSnake.boostMeter;
+    
     const padding = 20;
     const meterWidth = 200;
     const meterHeight = 15; // Slightly increased height for better visibility
@@ -928,7 +1158,7 @@ export class GameRenderer {
     
     // Calculate fill width based on boost meter value - with smooth animation
     // We'll use a simple easing for fill animation
-    const targetFillWidth = (playerSnake.boostMeter / 100) * meterWidth;
+    const targetFillWidth = (boostMeter / 100) * meterWidth;
     
     // Draw boost meter fill with enhanced glow effects
     if (targetFillWidth > 0) {
@@ -936,17 +1166,17 @@ export class GameRenderer {
       let color;
       if (playerSnake.isBoosting) {
         // Active boost color - intense gold/orange with pulsing
-        const boostProgress = Math.max(0, (playerSnake.boostEndTime - Date.now()) / 5000);
+        const boostProgress = Math.max(0, (playerSnake.boostEndTime - this.gameTime) / this.rules.boostDuration);
         const pulse = Math.sin(this.frameCount * 0.4) * 0.3 + 0.7;
         
         // Color shifts from gold to red as boost depletes
-        color = playerSnake.boostMeter >= 75 ? "#FFC107" : 
-               playerSnake.boostMeter >= 50 ? "#FF9800" : 
-               playerSnake.boostMeter >= 25 ? "#FF5722" : "#F44336";
+        color = boostMeter >= 75 ? "#FFC107" : 
+               boostMeter >= 50 ? "#FF9800" : 
+               boostMeter >= 25 ? "#FF5722" : "#F44336";
         
         this.ctx.shadowBlur = 15 * pulse;
         this.ctx.shadowColor = color;
-      } else if (playerSnake.boostMeter >= 100) {
+      } else if (boostMeter >= 100) {
         // Ready boost - gold with gentle pulsing
         const pulse = Math.sin(this.frameCount * 0.1) * 0.2 + 0.8;
         color = "#FFC107";
@@ -954,7 +1184,7 @@ export class GameRenderer {
         this.ctx.shadowColor = "#FFC107";
       } else {
         // Charging boost - blue with intensity based on fill level
-        const fillRatio = playerSnake.boostMeter / 100;
+        const fillRatio = boostMeter / 100;
         // Color gradient from dark blue to bright blue as it fills
         color = fillRatio < 0.3 ? "#2980b9" : 
                fillRatio < 0.6 ? "#3498db" : "#00b7ff";
@@ -1006,10 +1236,14 @@ export class GameRenderer {
     
     let label = "BOOST";
     if (playerSnake.isBoosting) {
-      // Calculate remaining boost time with 1 decimal precision
-      const timeLeft = Math.max(0, (playerSnake.boostEndTime - Date.now()) / 1000);
-      const timeLeftDisplay = timeLeft.toFixed(1);
-      label = `BOOST ${timeLeftDisplay}s`;
+      if (sprint) {
+        label = "SPRINTING";
+      } else {
+        // Calculate remaining boost time with 1 decimal precision
+        const timeLeft = Math.max(0, (playerSnake.boostEndTime - this.gameTime) / 1000);
+        const timeLeftDisplay = timeLeft.toFixed(1);
+        label = `BOOST ${timeLeftDisplay}s`;
+      }
       
       // Add a pulse effect when boosting
       const pulse = Math.sin(this.frameCount * 0.3) * 0.3 + 0.7;
@@ -1018,8 +1252,8 @@ export class GameRenderer {
       
       // Text glow and shadow for better visibility
       this.ctx.fillStyle = "#FFFFFF";
-    } else if (playerSnake.boostMeter >= 100) {
-      label = "PRESS SPACE";
+    } else if (boostMeter >= 100) {
+      label = sprint ? "HOLD SPACE" : "PRESS SPACE";
       
       // Pulsing text for ready boost
       const pulse = Math.sin(this.frameCount * 0.2) * 0.5 + 0.5;
@@ -1034,8 +1268,8 @@ export class GameRenderer {
       }
     } else {
       // Show percentage with smoother animation
-      const percent = Math.floor(playerSnake.boostMeter);
-      label = `${percent}%`;
+      const percent = Math.floor(boostMeter);
+      label = sprint ? "TOO SHORT" : `${percent}%`;
       
       // Normal text for charging boost
       this.ctx.shadowBlur = 3;
@@ -1057,55 +1291,31 @@ export class GameRenderer {
     }
 
     const screenPos = this.worldToScreen(powerUp.position.x, powerUp.position.y);
-    const now = Date.now();
-    const age = now - powerUp.spawnTime;
-    const timeLeft = powerUp.expiryTime - now;
+    const age = Date.now() - powerUp.spawnTime; // Only drives the pulse
+    const timeLeft = powerUp.expiryTime - this.gameTime;
     const blinkSpeed = Math.max(0.5, Math.min(2, timeLeft / 5000)); // Blink faster as expiry approaches
     
     // Pulsing animation
     const pulseSize = 1 + 0.2 * Math.sin(age / (300 * blinkSpeed));
     const radius = powerUp.radius * this.zoom * pulseSize;
     
-    // Base colors for power-up types
-    const powerUpColors: Record<PowerUpType, {base: string, glow: string, icon: string}> = {
-      shield: { 
-        base: "#4FC3F7", 
-        glow: "#29B6F6", 
-        icon: "🛡️" 
-      },
-      magnet: { 
-        base: "#BA68C8", 
-        glow: "#AB47BC", 
-        icon: "🧲" 
-      },
-      ghost: { 
-        base: "#B0BEC5", 
-        glow: "#90A4AE", 
-        icon: "👻" 
-      },
-      giant: { 
-        base: "#FFB74D", 
-        glow: "#FFA726", 
-        icon: "🔱" 
-      }
-    };
-    
-    const colorInfo = powerUpColors[powerUp.type];
+    // Colors and icon come from the power-up registry
+    const colorInfo = POWER_UPS[powerUp.type];
     
     // External glow
     this.ctx.shadowBlur = 15;
-    this.ctx.shadowColor = colorInfo.glow;
+    this.ctx.shadowColor = colorInfo.glowColor;
     
     // Draw outer circle
     this.ctx.beginPath();
     this.ctx.arc(screenPos.x, screenPos.y, radius, 0, Math.PI * 2);
-    this.ctx.fillStyle = colorInfo.base;
+    this.ctx.fillStyle = colorInfo.color;
     this.ctx.fill();
     
     // Inner highlight
     this.ctx.beginPath();
     this.ctx.arc(screenPos.x, screenPos.y, radius * 0.7, 0, Math.PI * 2);
-    this.ctx.fillStyle = this.lightenColor(colorInfo.base, 30);
+    this.ctx.fillStyle = this.lightenColor(colorInfo.color, 30);
     this.ctx.fill();
     
     // Reset shadow
@@ -1121,20 +1331,23 @@ export class GameRenderer {
     
     // Draw time left indicator as a circular progress bar
     if (timeLeft < 10000) { // Only show countdown when less than 10 seconds left
-      const progress = timeLeft / 30000; // 30 seconds is the total lifetime
+      const progress = timeLeft / POWER_UP_LIFETIME;
       this.ctx.beginPath();
       this.ctx.arc(screenPos.x, screenPos.y, radius * 1.3, 0, Math.PI * 2 * progress);
-      this.ctx.strokeStyle = colorInfo.glow;
+      this.ctx.strokeStyle = colorInfo.glowColor;
       this.ctx.lineWidth = 2;
       this.ctx.stroke();
     }
   }
 
   // Draw active power-up effects on a snake
-  public drawSnakePowerUpEffects(snake: Snake): void {
+  public drawSnakePowerUpEffects(snake: Snake, isPlayer: boolean = false): void {
     if (!snake.activePowerUps.length) return;
     
-    const now = Date.now();
+    // Don't give away other snakes that are faded out
+    if (!isPlayer && getSnakeOpacity(snake) < 1) return;
+    
+    const now = this.gameTime;
     const head = snake.segments[0];
     const screenPos = this.worldToScreen(head.x, head.y);
     
@@ -1153,25 +1366,11 @@ export class GameRenderer {
       const isFlashing = timeLeft < 3000 && Math.floor(Date.now() / 200) % 2 === 0;
       if (isFlashing) return;
       
-      // Icons for each power-up type
-      const icons: Record<PowerUpType, string> = {
-        shield: "🛡️",
-        magnet: "🧲",
-        ghost: "👻",
-        giant: "🔱"
-      };
-      
-      const glowColors: Record<PowerUpType, string> = {
-        shield: "#29B6F6",
-        magnet: "#AB47BC",
-        ghost: "#90A4AE",
-        giant: "#FFA726"
-      };
-      
       // Draw the icon
-      this.ctx.shadowColor = glowColors[powerUp.type];
+      const definition = POWER_UPS[powerUp.type];
+      this.ctx.shadowColor = definition.glowColor;
       this.ctx.fillText(
-        icons[powerUp.type],
+        definition.icon,
         screenPos.x,
         screenPos.y + iconOffset
       );
@@ -1184,15 +1383,26 @@ export class GameRenderer {
   }
 
   public render(gameState: GameState, playerSnake?: Snake, deltaTime: number = 16.67): void {
+    // Rooms can have different map sizes, the state is the source of truth
+    this.mapWidth = gameState.width;
+    this.mapHeight = gameState.height;
+    this.gameTime = gameState.time ?? Date.now();
+    
     // Check for state changes to trigger effects
     this.checkGameStateChanges(gameState, playerSnake);
     
-    // Update trails only - no particles
+    // Update trails and one-off particle effects
     this.trailSystem.update(deltaTime);
+    this.particleSystem.update(deltaTime);
     
     this.clear();
     this.drawGrid();
     
+    // Battle royale zone under everything on the map
+    if (gameState.zone) {
+      this.drawSafeZone(gameState.zone);
+    }
+    
     // Draw trails first (under snakes)
     this.trailSystem.draw(this.ctx, this.cameraX, this.cameraY, this.zoom, this.screenWidth, this.screenHeight);
     
@@ -1215,9 +1425,12 @@ export class GameRenderer {
     
     // Draw player snake last (on top)
     if (playerSnake) {
-      this.drawSnake(playerSnake);
+      this.drawSnake(playerSnake, true);
     }
     
+    // Impact effects on top of the snakes
+    this.drawParticles();
+    
     // Draw danger warning if player is close to edge
     if (playerSnake) {
       this.drawDangerWarning(playerSnake);
@@ -1229,6 +1442,9 @@ export class GameRenderer {
     // Draw leaderboard
     this.drawLeaderboard(gameState.leaderboard);
     
+    // Battle royale phase and winner
+    this.drawZoneStatus(gameState);
+    
     // Draw boost meter if player snake exists
     if (playerSnake && playerSnake.alive) {
       this.drawBoostMeter(playerSnake);
@@ -1246,7 +1462,7 @@ export class GameRenderer {
       
       // Draw power-up effects if any
       if (snake.activePowerUps.length > 0) {
-        this.drawSnakePowerUpEffects(snake);
+        this.drawSnakePowerUpEffects(snake, snake.id === playerSnake?.id);
       }
     });
   }
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { BoostMode, GameMode, GameRules, HeadOnRule, resolveRules } from '@/lib/game/rules';
+import { BotDifficulty } from '@/lib/game/bots';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Settings, X } from 'lucide-react';
+
+// Local bots to play against offline
+export interface OfflineBotSettings {
+  count: number;
+  difficulty: BotDifficulty;
+}
+
+export const DEFAULT_OFFLINE_BOTS: OfflineBotSettings = {
+  count: 5,
+  difficulty: 'normal',
+};
+
+const MAX_OFFLINE_BOTS = 20;
+
+interface GameSetupPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  rules: Partial<GameRules>;
+  bots: OfflineBotSettings;
+  onStart: (rules: Partial<GameRules>, bots: OfflineBotSettings) => void;
+}
+
+const GAME_MODE_LABELS: Record<GameMode, string> = {
+  classic: 'Classic',
+  'battle-royale': 'Battle royale',
+};
+
+const HEAD_ON_RULE_LABELS: Record<HeadOnRule, string> = {
+  'both-die': 'Both die',
+  'longer-wins': 'Longer wins',
+  'boosting-wins': 'Boosting wins',
+};
+
+const BOOST_MODE_LABELS: Record<BoostMode, string> = {
+  meter: 'Meter burst',
+  sprint: 'Hold to sprint',
+};
+
+const BOT_DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+};
+
+// Rules for an offline game. Starting applies them to a fresh game.
+export default function GameSetupPanel({ visible, onClose, rules, bots, onStart }: GameSetupPanelProps) {
+  const [draft, setDraft] = useState<GameRules>(resolveRules(rules));
+  const [botDraft, setBotDraft] = useState<OfflineBotSettings>(bots);
+
+  // Show the setup of the running game whenever the panel opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(resolveRules(rules));
+      setBotDraft(bots);
+    }
+  }, [visible, rules, bots]);
+
+  if (!visible) return null;
+
+  return (
+    <div className="absolute top-20 left-4 w-72 bg-black/80 backdrop-blur-md rounded-lg shadow-lg overflow-hidden z-50 border border-indigo-600/30">
+      {/* Header */}
+      <div className="flex items-center justify-between bg-indigo-600 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <Settings size={16} className="text-white" />
+          <h3 className="text-sm font-bold text-white">Game Setup</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-white hover:text-indigo-200 transition-colors"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-3 text-white text-sm space-y-3">
+        <label className="flex items-center justify-between">
+          <span>Mode</span>
+          <select
+            value={draft.gameMode}
+            onChange={(e) => setDraft(prev => ({ ...prev, gameMode: e.target.value as GameMode }))}
+            className="bg-indigo-900/50 border border-indigo-400/30 rounded px-2 py-1"
+          >
+            {(Object.keys(GAME_MODE_LABELS) as GameMode[]).map(mode => (
+              <option key={mode} value={mode}>{GAME_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Bots</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_OFFLINE_BOTS}
+            value={botDraft.count}
+            onChange={(e) => setBotDraft(prev => ({ ...prev, count: Number(e.target.value) }))}
+            className="flex-1 accent-indigo-500"
+          />
+          <span className="w-6 text-right">{botDraft.count}</span>
+        </label>
+        <label className="flex items-center justify-between">
+          <span>Bot difficulty</span>
+          <select
+            value={botDraft.difficulty}
+            onChange={(e) => setBotDraft(prev => ({ ...prev, difficulty: e.target.value as BotDifficulty }))}
+            disabled={botDraft.count === 0}
+            className="bg-indigo-900/50 border border-indigo-400/30 rounded px-2 py-1 disabled:opacity-50"
+          >
+            {(Object.keys(BOT_DIFFICULTY_LABELS) as BotDifficulty[]).map(difficulty => (
+              <option key={difficulty} value={difficulty}>{BOT_DIFFICULTY_LABELS[difficulty]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between">
+          <span>Self-collision (classic)</span>
+          <Checkbox
+            checked={draft.selfCollision}
+            onCheckedChange={(checked) => setDraft(prev => ({ ...prev, selfCollision: checked === true }))}
+            className="border-indigo-400"
+          />
+        </label>
+        <label className="flex items-center justify-between">
+          <span>Head-on</span>
+          <select
+            value={draft.headOnRule}
+            onChange={(e) => setDraft(prev => ({ ...prev, headOnRule: e.target.value as HeadOnRule }))}
+            className="bg-indigo-900/50 border border-indigo-400/30 rounded px-2 py-1"
+          >
+            {(Object.keys(HEAD_ON_RULE_LABELS) as HeadOnRule[]).map(rule => (
+              <option key={rule} value={rule}>{HEAD_ON_RULE_LABELS[rule]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between">
+          <span>Boost</span>
+          <select
+            value={draft.boostMode}
+            onChange={(e) => setDraft(prev => ({ ...prev, boostMode: e.target.value as BoostMode }))}
+            className="bg-indigo-900/50 border border-indigo-400/30 rounded px-2 py-1"
+          >
+            {(Object.keys(BOOST_MODE_LABELS) as BoostMode[]).map(mode => (
+              <option key={mode} value={mode}>{BOOST_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between">
+          <span>Power-ups</span>
+          <Checkbox
+            checked={draft.powerUpsEnabled}
+            onCheckedChange={(checked) => setDraft(prev => ({ ...prev, powerUpsEnabled: checked === true }))}
+            className="border-indigo-400"
+          />
+        </label>
+        <button
+          onClick={() => onStart(draft, botDraft)}
+          className="w-full px-3 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+        >
+          Start new game
+        </button>
+        <p className="text-gray-400 text-xs">
+          The current game ends and a new one starts with these rules.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,13 @@
 
 import { useState, useEffect } from 'react';
 import { gameSocketClient } from '@/lib/game/socket-client';
-import { Trophy, ChevronUp, ChevronDown, Crown } from 'lucide-react';
+import { Trophy, ChevronUp, ChevronDown, Crown, Bot } from 'lucide-react';
 
 interface LeaderboardPlayer {
   id: string;
   name: string;
   score: number;
+  isBot?: boolean;
 }
 
 interface LeaderboardProps {
@@ -89,8 +90,9 @@ export default function Leaderboard({ playerCount }: LeaderboardProps) {
                     </span>
                   )}
                 </div>
-                <div className="flex-1 text-sm truncate text-white ml-2">
+                <div className="flex-1 flex items-center gap-1 text-sm truncate text-white ml-2">
                   {player.name}
+                  {player.isBot && <Bot size={12} className="flex-none text-gray-400" aria-label="Bot" />}
                 </div>
                 <div className="text-right text-xs font-bold text-indigo-300">
                   {player.score.toLocaleString()}
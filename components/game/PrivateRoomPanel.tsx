@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from 'react';
+import { gameSocketClient } from '@/lib/game/socket-client';
+import { RoomSettings, DEFAULT_ROOM_SETTINGS, MapSize, FoodDensity } from '@/lib/game/rules';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Lock, Copy, Check, X } from 'lucide-react';
+
+interface PrivateRoomPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  playerName: string;
+  roomCode: string | null;
+  isPrivate: boolean;
+}
+
+const MAP_SIZE_LABELS: Record<MapSize, string> = {
+  small: 'Small',
+  medium: 'Medium',
+  large: 'Large',
+};
+
+const FOOD_DENSITY_LABELS: Record<FoodDensity, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+};
+
+// Link friends can open to join a room
+export function getInviteLink(roomCode: string): string {
+  return `${window.location.origin}/game/multiplayer?room=${roomCode}`;
+}
+
+export default function PrivateRoomPanel({ visible, onClose, playerName, roomCode, isPrivate }: PrivateRoomPanelProps) {
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS);
+  const [copied, setCopied] = useState(false);
+
+  // Create the room, we move into it as soon as the server answers
+  const handleCreate = () => {
+    gameSocketClient.createRoom(playerName, settings);
+  };
+
+  // Copy the invite link to the clipboard
+  const handleCopy = async () => {
+    if (!roomCode) return;
+
+    try {
+      await navigator.clipboard.writeText(getInviteLink(roomCode));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Could not copy invite link:', error);
+    }
+  };
+
+  if (!visible) return null;
+
+  return (
+    <div className="absolute top-20 left-4 w-72 bg-black/80 backdrop-blur-md rounded-lg shadow-lg overflow-hidden z-50 border border-indigo-600/30">
+      {/* Header */}
+      <div className="flex items-center justify-between bg-indigo-600 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <Lock size={16} className="text-white" />
+          <h3 className="text-sm font-bold text-white">Private Room</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-white hover:text-indigo-200 transition-colors"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-3 text-white text-sm space-y-3">
+        {isPrivate && roomCode ? (
+          <>
+            {/* Invite details for the current room */}
+            <div>
+              <div className="text-gray-400 text-xs mb-1">Invite code</div>
+              <div className="font-mono text-2xl tracking-widest">{roomCode}</div>
+            </div>
+            <button
+              onClick={handleCopy}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+            >
+              {copied ? <Check size={14} /> : <Copy size={14} />}
+              {copied ? 'Copied!' : 'Copy invite link'}
+            </button>
+          </>
+        ) : (
+          <>
+            {/* Settings for a new room */}
+            <label className="flex items-center justify-between">
+              <span>Map size</span>
+              <select
+                value={settings.mapSize}
+                onChange={(e) => setSettings(prev => ({ ...prev, mapSize: e.target.value as MapSize }))}
+                className="bg-indigo-900/50 border border-indigo-400/30 rounded px-2 py-1"
+              >
+                {(Object.keys(MAP_SIZE_LABELS) as MapSize[]).map(size => (
+                  <option key={size} value={size}>{MAP_SIZE_LABELS[size]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between">
+              <span>Food</span>
+              <select
+                value={settings.foodDensity}
+                onChange={(e) => setSettings(prev => ({ ...prev, foodDensity: e.target.value as FoodDensity }))}
+                className="bg-indigo-900/50 border border-indigo-400/30 rounded px-2 py-1"
+              >
+                {(Object.keys(FOOD_DENSITY_LABELS) as FoodDensity[]).map(density => (
+                  <option key={density} value={density}>{FOOD_DENSITY_LABELS[density]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between">
+              <span>Power-ups</span>
+              <Checkbox
+                checked={settings.powerUps}
+                onCheckedChange={(checked) => setSettings(prev => ({ ...prev, powerUps: checked === true }))}
+                className="border-indigo-400"
+              />
+            </label>
+            <label className="flex items-center justify-between">
+              <span>Self-collision</span>
+              <Checkbox
+                checked={settings.selfCollision}
+                onCheckedChange={(checked) => setSettings(prev => ({ ...prev, selfCollision: checked === true }))}
+                className="border-indigo-400"
+              />
+            </label>
+            <button
+              onClick={handleCreate}
+              className="w-full px-3 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+            >
+              Create room
+            </button>
+            <p className="text-gray-400 text-xs">
+              Only players with the invite code can join. You'll leave the current game.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
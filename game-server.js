@@ -13,10 +13,9 @@ require('ts-node').register({
 });
 
 // Import game server code
-const { initGameServer, addAIPlayer } = require('./server/game/index');
+const { initGameServer } = require('./server/game/index');
 
 const PORT = process.env.PORT || 3002;
-const NUM_AI_PLAYERS = 5;
 
 // Create Express app
 const app = express();
@@ -34,11 +33,6 @@ const httpServer = http.createServer(app);
 // Initialize the game server with the HTTP server
 const io = initGameServer(httpServer);
 
-// Add some AI players if specified
-for (let i = 0; i < NUM_AI_PLAYERS; i++) {
-  addAIPlayer();
-}
-
 // Health check route
 app.get('/health', (req, res) => {
   res.status(200).send('Game server is running');
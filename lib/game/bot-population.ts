@@ -0,0 +1,96 @@
+import { GameEngine } from './engine';
+import { BotDifficulty, createBotName } from './bots';
+import { Snake } from './models';
+import { RandomSource } from './random';
+
+// How a game is topped up with bots
+export interface BotPopulationOptions {
+  targetPopulation: number; // Players plus bots the game aims for, 0 for no bots
+  respawnDelay: number; // ms after a bot dies before a fresh one replaces it
+  difficulties: BotDifficulty[]; // New bots pick one of these at random, repeat one to make it more common
+}
+
+export const DEFAULT_BOT_POPULATION: BotPopulationOptions = {
+  targetPopulation: 8,
+  respawnDelay: 3000,
+  difficulties: ['easy', 'normal', 'normal', 'hard'],
+};
+
+// Keeps a game feeling busy: bots fill the gap between the players present
+// and the target population, leave again as players join, and dead bots are
+// replaced with new ones (new name, new skin) after a short delay. Used by
+// public server rooms and by offline games.
+export class BotPopulation {
+  private engine: GameEngine;
+  private options: BotPopulationOptions;
+  private random: RandomSource; // The engine's, so seeded games pick the same bots every time
+  private deadSince: Map<string, number> = new Map(); // When each dead bot was first seen dead, kept after its body is gone
+
+  constructor(engine: GameEngine, options: BotPopulationOptions, random: RandomSource) {
+    this.engine = engine;
+    this.options = options;
+    this.random = random;
+  }
+
+  // Bring the bot count in line with the number of players in the room
+  public update(players: number, now: number): void {
+    this.removeExpiredDead(now);
+
+    const bots = this.getBots();
+    const wanted = Math.max(0, this.options.targetPopulation - players);
+
+    // Dead bots whose body has already dissolved still hold their place until the delay is up
+    const dissolved = Array.from(this.deadSince.keys()).filter(id => !bots.some(bot => bot.id === id));
+    let count = bots.length + dissolved.length;
+
+    // Nobody joins a battle royale round once it's under way
+    const canJoin = !this.engine.isRoundInProgress();
+    for (; canJoin && count < wanted; count++) {
+      this.addBot();
+    }
+
+    if (count > wanted) {
+      // Dissolved bots go first, then dead ones, then whoever has the least to lose
+      let surplus = count - wanted;
+      for (const id of dissolved.slice(0, surplus)) {
+        this.deadSince.delete(id);
+        surplus--;
+      }
+      bots
+        .sort((a, b) => Number(!b.alive) - Number(!a.alive) || a.score - b.score)
+        .slice(0, surplus)
+        .forEach(bot => this.removeBot(bot.id));
+    }
+  }
+
+  private getBots(): Snake[] {
+    return this.engine.getState().snakes.filter(snake => snake.isBot);
+  }
+
+  private addBot(): void {
+    const { difficulties } = this.options;
+    const difficulty = difficulties[Math.floor(this.random() * difficulties.length)] || 'normal';
+    this.engine.addBot(createBotName(this.random), difficulty);
+  }
+
+  private removeBot(id: string): void {
+    this.engine.removePlayer(id);
+    this.deadSince.delete(id);
+  }
+
+  // Clear away bots that have been dead for long enough, the next update replaces them
+  private removeExpiredDead(now: number): void {
+    for (const bot of this.getBots()) {
+      if (!bot.alive && !this.deadSince.has(bot.id)) {
+        this.deadSince.set(bot.id, now);
+      }
+    }
+
+    for (const [id, since] of Array.from(this.deadSince.entries())) {
+      if (now - since >= this.options.respawnDelay) {
+        // Removing a bot the engine has already dissolved is a no-op
+        this.removeBot(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { Food, Point, PowerUp, SafeZone, Snake, distance, normalizeVector } from './models';
+import { RandomSource } from './random';
+
+// Bot brains. A brain looks at the world around its snake every so often and
+// picks one behavior state, which decides where to steer and whether to
+// boost. The engine runs the brains inside its tick and feeds their decisions
+// through the same input path as players, so bots play by the same rules
+// (power-ups like reverse controls included) on the server and offline.
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+// What a bot is doing, in priority order:
+// - 'avoid-border': too close to the edge or outside the safe zone, head back towards the middle
+// - 'flee': a bigger snake or a body is close, get away from it
+// - 'trap': circle a smaller snake so it runs into us
+// - 'chase-power-up': go for a nearby power-up
+// - 'forage': eat the best food in sight, or wander
+export type BotState = 'avoid-border' | 'flee' | 'trap' | 'chase-power-up' | 'forage';
+
+// What a brain may look at, provided by the engine
+export interface BotWorld {
+  width: number;
+  height: number;
+  borderDangerZone: number;
+  now(): number;
+  random(): number;
+  getFoodNear(position: Point, radius: number): Food[];
+  getPowerUpsNear(position: Point, radius: number): PowerUp[];
+  // Live snakes with a segment within `radius` of a point
+  getSnakesNear(position: Point, radius: number): Snake[];
+  // The battle royale safe zone, if there is one
+  getSafeZone(): SafeZone | undefined;
+}
+
+// Where to steer and whether to boost. The direction's length is the input
+// magnitude players produce with the pointer, 100 is full speed.
+export interface BotDecision {
+  direction: Point;
+  boost: boolean;
+}
+
+interface BotProfile {
+  thinkInterval: number; // ms between decisions, slower bots react later
+  viewRadius: number; // How far away food and power-ups are noticed
+  dangerRadius: number; // Bigger snakes closer than this are fled from
+  bodyLookahead: number; // How far ahead bodies in the way are noticed
+  borderMargin: number; // Extra distance kept from the deadly border
+  trapRatio: number; // Snakes shorter than this fraction of our length are hunted, 0 never
+  chasesPowerUps: boolean;
+  boostToFlee: boolean;
+  boostToTrap: boolean;
+  aimJitter: number; // Random error in every decision (radians)
+  speed: number; // Input magnitude, 0-100
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: {
+    thinkInterval: 400,
+    viewRadius: 250,
+    dangerRadius: 120,
+    bodyLookahead: 40,
+    borderMargin: 100,
+    trapRatio: 0,
+    chasesPowerUps: false,
+    boostToFlee: false,
+    boostToTrap: false,
+    aimJitter: 0.5,
+    speed: 50,
+  },
+  normal: {
+    thinkInterval: 200,
+    viewRadius: 400,
+    dangerRadius: 200,
+    bodyLookahead: 60,
+    borderMargin: 150,
+    trapRatio: 0.5,
+    chasesPowerUps: true,
+    boostToFlee: true,
+    boostToTrap: false,
+    aimJitter: 0.2,
+    speed: 75,
+  },
+  hard: {
+    thinkInterval: 100,
+    viewRadius: 600,
+    dangerRadius: 300,
+    bodyLookahead: 90,
+    borderMargin: 200,
+    trapRatio: 0.7,
+    chasesPowerUps: true,
+    boostToFlee: true,
+    boostToTrap: true,
+    aimJitter: 0.05,
+    speed: 100,
+  },
+};
+
+const BOT_NAME_PREFIXES = ['Slither', 'Viper', 'Noodle', 'Fang', 'Zig', 'Coil', 'Hiss', 'Scale', 'Venom', 'Wiggle', 'Sly', 'Rattle'];
+const BOT_NAME_SUFFIXES = ['King', 'Bot', 'Queen', 'Master', 'Pro', 'Jr', 'Prime', 'X', '3000', 'Zilla'];
+
+// A player-looking name for a bot, e.g. "ViperPrime"
+export function createBotName(random: RandomSource): string {
+  const prefix = BOT_NAME_PREFIXES[Math.floor(random() * BOT_NAME_PREFIXES.length)];
+  const suffix = BOT_NAME_SUFFIXES[Math.floor(random() * BOT_NAME_SUFFIXES.length)];
+  return `${prefix}${suffix}`;
+}
+
+const TRAP_RADIUS = 60; // How tightly a trapping bot circles its prey's head
+const WANDER_TURN = 0.6; // Largest random turn while wandering (radians)
+const ZONE_HEAD_START = 5000; // ms before a safe zone shrink that bots make for the next circle
+
+function rotate(v: Point, angle: number): Point {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: v.x * cos - v.y * sin, y: v.x * sin + v.y * cos };
+}
+
+function towards(from: Point, to: Point): Point {
+  return normalizeVector({ x: to.x - from.x, y: to.y - from.y });
+}
+
+// The segment of `snake` closest to a point
+function nearestSegment(snake: Snake, position: Point): { point: Point, distance: number } {
+  let best = snake.segments[0];
+  let bestDistance = Infinity;
+  for (const segment of snake.segments) {
+    const d = distance(position, segment);
+    if (d < bestDistance) {
+      best = segment;
+      bestDistance = d;
+    }
+  }
+  return { point: best, distance: bestDistance };
+}
+
+export class BotBrain {
+  public readonly difficulty: BotDifficulty;
+  private profile: BotProfile;
+  private state: BotState = 'forage';
+  private nextThink: number | null = null;
+  private trapTurn: number = 1; // Which way round to circle prey, 1 or -1
+
+  constructor(difficulty: BotDifficulty = 'normal') {
+    this.difficulty = difficulty;
+    this.profile = BOT_PROFILES[difficulty];
+  }
+
+  public getState(): BotState {
+    return this.state;
+  }
+
+  // Decide what the snake does next, or null while the bot is still
+  // "reacting" to its last decision
+  public think(snake: Snake, world: BotWorld): BotDecision | null {
+    const now = world.now();
+    if (this.nextThink === null) {
+      // Spread the first decision out so bots added together don't all think on the same tick
+      this.nextThink = now + world.random() * this.profile.thinkInterval;
+    }
+    if (now < this.nextThink || !snake.alive || snake.segments.length === 0) return null;
+    this.nextThink = now + this.profile.thinkInterval;
+
+    const decision =
+      this.avoidBorder(snake, world) ||
+      this.flee(snake, world) ||
+      this.trap(snake, world) ||
+      this.chasePowerUp(snake, world) ||
+      this.forage(snake, world);
+
+    // Nobody aims perfectly
+    const jitter = (world.random() * 2 - 1) * this.profile.aimJitter;
+    const aim = rotate(decision.direction, jitter);
+    return {
+      direction: { x: aim.x * this.profile.speed, y: aim.y * this.profile.speed },
+      boost: decision.boost,
+    };
+  }
+
+  private avoidBorder(snake: Snake, world: BotWorld): BotDecision | null {
+    const head = snake.segments[0];
+    const margin = world.borderDangerZone + this.profile.borderMargin;
+    const ahead = {
+      x: head.x + snake.direction.x * this.profile.bodyLookahead,
+      y: head.y + snake.direction.y * this.profile.bodyLookahead,
+    };
+
+    const nearEdge = [head, ahead].some(p =>
+      p.x < margin || p.x > world.width - margin || p.y < margin || p.y > world.height - margin
+    );
+    if (nearEdge) {
+      this.state = 'avoid-border';
+      return { direction: towards(head, { x: world.width / 2, y: world.height / 2 }), boost: false };
+    }
+
+    // Stay inside the safe zone, and make for the next one before it starts closing
+    const zone = world.getSafeZone();
+    if (zone) {
+      const target = world.now() >= zone.shrinkStartsAt - ZONE_HEAD_START
+        ? { x: zone.nextX, y: zone.nextY, radius: zone.nextRadius }
+        : { x: zone.x, y: zone.y, radius: zone.radius };
+      if (distance(head, target) > target.radius - this.profile.borderMargin) {
+        const outside = distance(head, zone) > zone.radius;
+        this.state = 'avoid-border';
+        return { direction: towards(head, target), boost: outside && this.profile.boostToFlee };
+      }
+    }
+
+    return null;
+  }
+
+  private flee(snake: Snake, world: BotWorld): BotDecision | null {
+    const head = snake.segments[0];
+    const ahead = {
+      x: head.x + snake.direction.x * this.profile.bodyLookahead,
+      y: head.y + snake.direction.y * this.profile.bodyLookahead,
+    };
+
+    // Push away from every threat, closer threats push harder
+    let away = { x: 0, y: 0 };
+    let threatened = false;
+
+    for (const other of world.getSnakesNear(head, this.profile.dangerRadius)) {
+      if (other === snake) continue;
+
+      const bigger = other.segments.length >= snake.segments.length;
+      const nearest = nearestSegment(other, ahead);
+      const inTheWay = nearest.distance < this.profile.bodyLookahead;
+      if (!bigger && !inTheWay) continue;
+
+      const from = inTheWay ? nearest.point : other.segments[0];
+      const d = Math.max(1, distance(head, from));
+      const push = towards(from, head);
+      away = { x: away.x + push.x / d, y: away.y + push.y / d };
+      threatened = true;
+    }
+
+    if (!threatened || (away.x === 0 && away.y === 0)) return null;
+
+    this.state = 'flee';
+    return { direction: normalizeVector(away), boost: this.profile.boostToFlee };
+  }
+
+  private trap(snake: Snake, world: BotWorld): BotDecision | null {
+    if (this.profile.trapRatio <= 0) return null;
+
+    const head = snake.segments[0];
+    let prey: Snake | null = null;
+    let preyDistance = Infinity;
+
+    for (const other of world.getSnakesNear(head, this.profile.viewRadius)) {
+      if (other === snake || other.segments.length >= snake.segments.length * this.profile.trapRatio) continue;
+      const d = distance(head, other.segments[0]);
+      if (d < preyDistance) {
+        prey = other;
+        preyDistance = d;
+      }
+    }
+    if (!prey) return null;
+
+    if (this.state !== 'trap') {
+      // Pick a way round for this hunt
+      this.trapTurn = world.random() < 0.5 ? 1 : -1;
+    }
+    this.state = 'trap';
+
+    // Aim for a point on a circle around the prey's head, a little ahead of
+    // where we are on it, so we keep going round and close it in
+    const preyHead = prey.segments[0];
+    const fromPrey = towards(preyHead, head);
+    const onCircle = rotate(fromPrey, this.trapTurn * 0.8);
+    const target = {
+      x: preyHead.x + onCircle.x * TRAP_RADIUS,
+      y: preyHead.y + onCircle.y * TRAP_RADIUS,
+    };
+
+    return { direction: towards(head, target), boost: this.profile.boostToTrap };
+  }
+
+  private chasePowerUp(snake: Snake, world: BotWorld): BotDecision | null {
+    if (!this.profile.chasesPowerUps) return null;
+
+    const head = snake.segments[0];
+    let best: PowerUp | null = null;
+    let bestDistance = Infinity;
+
+    for (const powerUp of world.getPowerUpsNear(head, this.profile.viewRadius)) {
+      const d = distance(head, powerUp.position);
+      if (d < bestDistance) {
+        best = powerUp;
+        bestDistance = d;
+      }
+    }
+    if (!best) return null;
+
+    this.state = 'chase-power-up';
+    return { direction: towards(head, best.position), boost: false };
+  }
+
+  private forage(snake: Snake, world: BotWorld): BotDecision {
+    this.state = 'forage';
+    const head = snake.segments[0];
+
+    // Best value for the distance, so a big food a bit further away wins over a crumb
+    let best: Food | null = null;
+    let bestScore = 0;
+    for (const food of world.getFoodNear(head, this.profile.viewRadius)) {
+      const score = food.value / Math.max(1, distance(head, food.position));
+      if (score > bestScore) {
+        best = food;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      return { direction: towards(head, best.position), boost: false };
+    }
+
+    // Nothing in sight, wander
+    const turn = (world.random() * 2 - 1) * WANDER_TURN;
+    return { direction: rotate(snake.direction, turn), boost: false };
+  }
+}
@@ -1,4 +1,3 @@
-import { v4 as uuidv4 } from 'uuid';
 import {
   GameState,
   Snake,
@@ -13,35 +12,146 @@ import {
   PowerUp,
   createPowerUp,
   PowerUpType,
-  ActivePowerUp
+  ActivePowerUp,
+  MinimapSummary
 } from './models';
+import { SpatialGrid } from './spatial-grid';
+import { GameRules, resolveRules, validateRules } from './rules';
+import { RandomSource, GameClock, createSeededRandom, randomUuid, systemClock } from './random';
+import { POWER_UPS, PowerUpContext, getFoodMultiplier, getSpeedMultiplier } from './powerups';
+import { BotBrain, BotDifficulty, BotWorld } from './bots';
+import { FoodManager } from './food-manager';
+import { SafeZoneController, isInSafeZone } from './safe-zone';
 
 // Constants for game configuration
-const FOOD_COUNT = 500; // Increased food for larger map
-const SPECIAL_FOOD_CHANCE = 0.05; // 5% chance for special high-value food
 const FOOD_SPAWN_INTERVAL = 50; // ms - spawn food more frequently
-const TICK_RATE = 1000 / 60; // 60 fps
-const COLLISION_DISTANCE = 10;
+const MIN_SPEED = 120; // World units per second with the pointer close to the snake
+const SPEED_RANGE = 120; // Extra units per second with the pointer far away
 const FOOD_COLLISION_DISTANCE = 15;
-const BORDER_DANGER_ZONE = 30; // Distance from map edge that is dangerous
+const GRID_CELL_SIZE = 100; // Size of a spatial grid cell in world units
+const HEAD_RADIUS = 12; // Base radius of a snake head, matches the renderer
+const MAX_POWER_UP_RADIUS = 10; // Largest power-up radius, used as the grid search margin
+export const MIN_SPRINT_LENGTH = 10; // Snakes can't sprint themselves shorter than this
+const SELF_COLLISION_GAP = 30; // Own segments closer than this along the body (the neck) can't be hit
+const SPAWN_PADDING = 200; // Snakes spawn at least this far from the edges
+const SPAWN_CANDIDATES = 16; // Spawn points tried per new snake, the safest wins
+const SPAWN_SAFE_DISTANCE = 500; // Snakes further from a spawn point than this don't count against it
+const SPAWN_FOOD_RADIUS = 150; // Food this close to a spawn point counts in its favour
+const ZONE_MIN_LENGTH = 3; // Snakes worn down to this length outside the safe zone die
+const ROUND_RESTART_DELAY = 10000; // ms between a battle royale round ending and the next one starting
+
+// A single body segment stored in the spatial grid
+interface SegmentRef {
+  snake: Snake;
+  index: number;
+}
+
+// Where the engine gets randomness and time. Pass a seed (or a random
+// source) and a SimulatedClock to make a game fully reproducible.
+export interface EngineOptions {
+  seed?: number; // Seed for the built-in PRNG, ignored when `random` is given
+  random?: RandomSource;
+  clock?: GameClock;
+}
+
+// How a snake died
+export type DeathCause = 'collision' | 'self' | 'head-on' | 'border' | 'zone';
 
 // Define event types for sound events
-export type GameEventType = 'foodCollect' | 'specialFoodCollect' | 'playerDeath' | 'playerDeathBorder' | 'boostStart' | 'boostEnd' | 'playerKill' | 'powerUpCollect' | 'powerUpExpire';
+export type GameEventType = 'foodCollect' | 'specialFoodCollect' | 'playerDeath' | 'playerDeathBorder' | 'boostStart' | 'boostEnd' | 'playerKill' | 'powerUpCollect' | 'powerUpExpire' | 'headOnCollision' | 'playerRespawn' | 'snakeRemoved' | 'roundOver';
+
+// A player's totals over every life so far. Score and kills on Snake only
+// count the current life and start over on respawn.
+export interface SessionStats {
+  lives: number;
+  deaths: number;
+  kills: number;
+  totalScore: number;
+  bestScore: number;
+  longestLength: number;
+  playTime: number; // ms alive, finished lives only
+}
+
+interface PlayerSession {
+  stats: SessionStats;
+  lifeStartedAt: number;
+  lastSnake?: Snake; // The dead snake once its body is gone, kept to respawn as
+}
+
+// A dead snake on its way to becoming food
+interface Corpse {
+  length: number; // Segments at the time of death
+  elapsed: number; // ms since death
+}
 export type GameEventListener = (event: GameEventType, data?: any) => void;
 
 export class GameEngine {
   private state: GameState;
+  private rules: GameRules;
+  private random: RandomSource;
+  private clock: GameClock;
   private lastTick: number = 0;
   private foodSpawnCounter: number = 0;
   private eventListeners: GameEventListener[] = [];
   private lastFoodSpawn: number = 0;
   private lastPowerUpSpawn: number = 0; // Track when the last power-up was spawned
-  private foodSpawnRate: number = 100; // ms
-  private powerUpSpawnRate: number = 30000; // Spawn power-ups every 30 seconds
-  private maxPowerUps: number = 3; // Maximum number of power-ups on the map
   
-  constructor(width: number, height: number) {
+  // Spatial indexes so collision checks only look at nearby cells
+  private foodGrid: SpatialGrid<Food>;
+  private foodManager: FoodManager; // Decides where food spawns and when it despawns
+  private powerUpGrid: SpatialGrid<PowerUp>;
+  private segmentGrid: SpatialGrid<SegmentRef>;
+  private segmentRefs: SegmentRef[] = []; // Reused between ticks to avoid GC churn
+  private maxFoodRadius: number = 0;
+  private maxSnakeScale: number = 1; // Largest live snake scale, used as the segment search margin
+  private powerUpContext: PowerUpContext;
+  private sprintDrain: Map<string, number> = new Map(); // Tail segments owed by each sprinting snake
+  private bots: Map<string, BotBrain> = new Map(); // Brains of computer-controlled snakes, by snake id
+  private sessions: Map<string, PlayerSession> = new Map(); // Totals across respawns, by snake id
+  private corpses: Map<string, Corpse> = new Map(); // Dead snakes still dissolving, by snake id
+  private safeZone: SafeZoneController | null = null; // Battle royale only
+  private zoneDamage: Map<string, number> = new Map(); // Segments owed by each snake outside the safe zone
+  private roundContested: boolean = false; // At least two snakes have been alive this round
+  private roundOverAt: number | null = null; // When the current battle royale round was decided
+  private botWorld: BotWorld;
+  
+  constructor(width: number, height: number, rules: Partial<GameRules> = {}, options: EngineOptions = {}) {
+    // Throws InvalidRulesError for unknown or out-of-range rules
+    this.rules = resolveRules(validateRules(rules));
+    this.random = options.random || (options.seed !== undefined ? createSeededRandom(options.seed) : Math.random);
+    this.clock = options.clock || systemClock;
     this.state = createEmptyGameState(width, height);
+    this.foodGrid = new SpatialGrid<Food>(width, height, GRID_CELL_SIZE);
+    this.foodManager = new FoodManager(width, height, this.rules);
+    this.powerUpGrid = new SpatialGrid<PowerUp>(width, height, GRID_CELL_SIZE);
+    this.segmentGrid = new SpatialGrid<SegmentRef>(width, height, GRID_CELL_SIZE);
+    
+    // What power-up hooks are allowed to touch
+    this.powerUpContext = {
+      now: () => this.clock.now(),
+      getSnakesNear: (position, radius) => this.getSnakesNear(position, radius),
+      pullFood: (target, radius, step) => this.pullFood(target, radius, step),
+      grantPowerUp: (snake, type) => this.applyPowerUpEffect(snake, type),
+      endPowerUp: (snake, type) => this.endPowerUp(snake, type),
+    };
+    
+    // What bot brains are allowed to see
+    this.botWorld = {
+      width,
+      height,
+      borderDangerZone: this.rules.borderDangerZone,
+      now: () => this.clock.now(),
+      random: () => this.random(),
+      getFoodNear: (position, radius) => this.foodGrid.query(position, radius),
+      getPowerUpsNear: (position, radius) => this.powerUpGrid.query(position, radius),
+      getSnakesNear: (position, radius) => this.getSnakesNear(position, radius),
+      getSafeZone: () => this.state.zone,
+    };
+    
+    if (this.rules.gameMode === 'battle-royale') {
+      this.safeZone = new SafeZoneController(width, height, this.rules, this.random, this.clock.now());
+      this.state.zone = this.safeZone.getZone();
+    }
     
     // Initialize food
     this.spawnInitialFood();
@@ -57,6 +167,11 @@ export class GameEngine {
     this.eventListeners = this.eventListeners.filter(l => l !== listener);
   }
   
+  // New entity id, drawn from the engine's random source so seeded games get the same ids
+  private createId(): string {
+    return randomUuid(this.random);
+  }
+  
   // Emit an event to all listeners
   private emitEvent(event: GameEventType, data?: any): void {
     this.eventListeners.forEach(listener => {
@@ -70,36 +185,39 @@ export class GameEngine {
   
   // Initialize the game with food
   private spawnInitialFood(): void {
-    for (let i = 0; i < FOOD_COUNT; i++) {
-      this.spawnFood();
+    // Stock the map up to its food budget
+    for (let i = 0; i < this.rules.foodCount; i++) {
+      if (!this.spawnFood()) break;
     }
   }
   
-  // Spawn a new food at a random position
-  private spawnFood(): void {
-    const position: Point = {
-      x: Math.random() * this.state.width,
-      y: Math.random() * this.state.height,
-    };
-    
-    // Create special high-value food occasionally
-    const isSpecial = Math.random() < SPECIAL_FOOD_CHANCE;
-    const food = createFood(uuidv4(), position);
+  // Spawn food where the map is short of it, a single item or a whole field.
+  // Returns false when the map already holds its food budget.
+  private spawnFood(): boolean {
+    const positions = this.foodManager.planSpawn(this.random);
     
-    // Make special food larger, more valuable, and more visually distinct
-    if (isSpecial) {
-      food.value *= 3; // Triple the value
-      food.radius *= 1.5; // 50% larger
-      food.glowIntensity = 1.0; // Maximum glow
-      food.pulseRate = 3.0; // Fast pulse rate
+    for (const position of positions) {
+      // Create special high-value food occasionally
+      const isSpecial = this.random() < this.rules.specialFoodChance;
+      const food = createFood(this.createId(), position, this.random);
+      
+      // Make special food larger, more valuable, and more visually distinct
+      if (isSpecial) {
+        food.value *= 3; // Triple the value
+        food.radius *= 1.5; // 50% larger
+        food.glowIntensity = 1.0; // Maximum glow
+        food.pulseRate = 3.0; // Fast pulse rate
+      }
+      
+      this.addFood(food);
     }
     
-    this.state.foods.push(food);
+    return positions.length > 0;
   }
 
   // Spawn food at a specific position
   private spawnFoodAt(position: Point, value: number = 1): void {
-    const food = createFood(uuidv4(), position);
+    const food = createFood(this.createId(), position, this.random);
     
     // Adjust value to passed parameter
     food.value = value;
@@ -107,29 +225,237 @@ export class GameEngine {
     // Adjust radius based on value
     food.radius = 3 + value;
     
+    this.addFood(food);
+  }
+  
+  // Add food to the state and the spatial index
+  private addFood(food: Food): void {
     this.state.foods.push(food);
+    this.foodGrid.insert(food, food.position);
+    this.foodManager.track(food, this.clock.now());
+    this.maxFoodRadius = Math.max(this.maxFoodRadius, food.radius);
+  }
+  
+  // Remove eaten or despawned food from the state and the spatial index
+  private removeFoods(foods: Food[]): void {
+    if (foods.length === 0) return;
+    
+    const ids = new Set<string>();
+    for (const food of foods) {
+      this.foodGrid.remove(food, food.position);
+      this.foodManager.untrack(food);
+      ids.add(food.id);
+    }
+    
+    this.state.foods = this.state.foods.filter(food => !ids.has(food.id));
+  }
+  
+  // Re-index every live body segment after snakes have moved
+  private rebuildSegmentGrid(): void {
+    this.segmentGrid.clear();
+    
+    let refIndex = 0;
+    this.maxSnakeScale = 1;
+    for (const snake of this.state.snakes) {
+      if (!snake.alive) continue;
+      
+      this.maxSnakeScale = Math.max(this.maxSnakeScale, snake.scale || 1);
+      for (let i = 0; i < snake.segments.length; i++) {
+        let ref = this.segmentRefs[refIndex];
+        if (!ref) {
+          ref = { snake, index: i };
+          this.segmentRefs[refIndex] = ref;
+        } else {
+          ref.snake = snake;
+          ref.index = i;
+        }
+        refIndex++;
+        
+        this.segmentGrid.insert(ref, snake.segments[i]);
+      }
+    }
+    
+    // Drop refs that are no longer used so they don't pin removed snakes
+    this.segmentRefs.length = refIndex;
   }
   
   // Add a new player to the game
   public addPlayer(name: string): string {
-    const id = uuidv4();
+    return this.createPlayer(name).id;
+  }
+  
+  // Create a player's snake and session. Nobody joins a battle royale round
+  // once it's under way: a player arriving mid-round starts out dead, off
+  // the map, and can respawn when the next round starts.
+  private createPlayer(name: string): Snake {
+    const id = this.createId();
+    const spectating = this.isRoundInProgress();
     
-    // Spawn player away from edges
-    const padding = 200;
-    const position: Point = {
-      x: padding + Math.random() * (this.state.width - padding * 2),
-      y: padding + Math.random() * (this.state.height - padding * 2),
+    const spawn = this.getSpawnPoint();
+    const snake = createSnake(id, name, spawn.position, this.random, spawn.direction);
+    const session: PlayerSession = {
+      stats: { lives: spectating ? 0 : 1, deaths: 0, kills: 0, totalScore: 0, bestScore: 0, longestLength: 0, playTime: 0 },
+      lifeStartedAt: this.clock.now(),
     };
+    this.sessions.set(id, session);
+    
+    if (spectating) {
+      snake.alive = false;
+      session.lastSnake = snake;
+    } else {
+      this.state.snakes.push(snake);
+      this.rebuildSegmentGrid();
+    }
+    
+    return snake;
+  }
+  
+  // Where a new snake starts and which way it faces. Tries a handful of
+  // random points and keeps the one furthest from trouble, facing away from
+  // the closest snake (or towards the middle when nobody is near).
+  private getSpawnPoint(): { position: Point, direction: Point } {
+    let best = this.scoreSpawnPoint(this.getRandomPoint(SPAWN_PADDING));
+    for (let i = 1; i < SPAWN_CANDIDATES; i++) {
+      const candidate = this.scoreSpawnPoint(this.getRandomPoint(SPAWN_PADDING));
+      if (candidate.score > best.score) {
+        best = candidate;
+      }
+    }
+    
+    const position = best.position;
+    const away = best.threat
+      ? normalizeVector({ x: position.x - best.threat.x, y: position.y - best.threat.y })
+      : { x: 0, y: 0 };
+    const direction = away.x !== 0 || away.y !== 0
+      ? away
+      : normalizeVector({ x: this.state.width / 2 - position.x, y: this.state.height / 2 - position.y });
+    
+    return { position, direction: direction.x !== 0 || direction.y !== 0 ? direction : { x: 1, y: 0 } };
+  }
+  
+  // How good a spawn point is, higher is better: heads count double against
+  // it, then bodies, then the border; nearby food counts in its favour
+  private scoreSpawnPoint(position: Point): { position: Point, score: number, threat: Point | null } {
+    let nearestHead = SPAWN_SAFE_DISTANCE;
+    let nearestBody = SPAWN_SAFE_DISTANCE;
+    let threat: Point | null = null;
+    
+    this.segmentGrid.forEachNear(position, SPAWN_SAFE_DISTANCE, ref => {
+      const segment = ref.snake.segments[ref.index];
+      const d = distance(segment, position);
+      if (d >= SPAWN_SAFE_DISTANCE) return;
+      
+      if (d < Math.min(nearestHead, nearestBody)) {
+        threat = segment;
+      }
+      if (ref.index === 0) {
+        nearestHead = Math.min(nearestHead, d);
+      } else {
+        nearestBody = Math.min(nearestBody, d);
+      }
+    });
+    
+    const border = Math.min(
+      position.x,
+      position.y,
+      this.state.width - position.x,
+      this.state.height - position.y
+    ) - this.rules.borderDangerZone;
+    
+    let food = 0;
+    this.foodGrid.forEachNear(position, SPAWN_FOOD_RADIUS, item => {
+      if (distance(item.position, position) < SPAWN_FOOD_RADIUS) food += item.value;
+    });
+    
+    let score =
+      nearestHead * 2 +
+      nearestBody +
+      Math.min(border, SPAWN_SAFE_DISTANCE) / 2 +
+      Math.min(food, 10) * 10;
+    
+    // Outside the battle royale zone is the worst place to start
+    if (this.state.zone && !isInSafeZone(this.state.zone, position)) {
+      score -= SPAWN_SAFE_DISTANCE * 10;
+    }
+    
+    return { position, score, threat };
+  }
+  
+  // Bring a dead player back as a fresh snake with the same id, name and
+  // look. Per-life stats start over, session totals carry on, and other
+  // snakes can't kill it for a moment while it finds its feet.
+  public respawnPlayer(id: string): boolean {
+    const session = this.sessions.get(id);
+    const index = this.state.snakes.findIndex(s => s.id === id);
+    const previous = index !== -1 ? this.state.snakes[index] : session?.lastSnake;
+    if (!previous || previous.alive) {
+      return false;
+    }
+    
+    // No coming back in the middle of a battle royale round
+    if (this.isRoundInProgress()) {
+      return false;
+    }
+    
+    const spawn = this.getSpawnPoint();
+    const snake = createSnake(id, previous.name, spawn.position, this.random, spawn.direction);
+    snake.color = previous.color;
+    snake.pattern = previous.pattern;
+    snake.secondaryColor = previous.secondaryColor;
+    snake.glowIntensity = previous.glowIntensity;
+    snake.isBot = previous.isBot;
+    
+    const now = this.clock.now();
+    if (this.rules.spawnProtection > 0) {
+      snake.invulnerableUntil = now + this.rules.spawnProtection;
+    }
+    
+    // Whatever is left of the dead body turns into food right away
+    if (index !== -1) {
+      this.dissolveSegments(previous, 0);
+      this.state.snakes[index] = snake;
+    } else {
+      this.state.snakes.push(snake);
+    }
+    this.corpses.delete(id);
+    this.sprintDrain.delete(id);
+    this.rebuildSegmentGrid();
+    this.updateLeaderboard();
     
-    const snake = createSnake(id, name, position);
-    this.state.snakes.push(snake);
+    if (session) {
+      session.stats.lives++;
+      session.lifeStartedAt = now;
+      session.lastSnake = undefined;
+    }
     
-    return id;
+    const head = snake.segments[0];
+    this.emitEvent('playerRespawn', { playerId: id, at: { x: head.x, y: head.y } });
+    return true;
+  }
+  
+  // A player's totals across all their lives, or null for unknown players
+  public getSessionStats(id: string): SessionStats | null {
+    const session = this.sessions.get(id);
+    return session ? { ...session.stats } : null;
+  }
+  
+  // Add a computer-controlled snake, steered by a bot brain every tick
+  public addBot(name: string, difficulty: BotDifficulty = 'normal'): string {
+    const snake = this.createPlayer(name);
+    snake.isBot = true;
+    this.bots.set(snake.id, new BotBrain(difficulty));
+    return snake.id;
   }
   
   // Remove a player from the game
   public removePlayer(id: string): void {
     this.state.snakes = this.state.snakes.filter(snake => snake.id !== id);
+    this.sprintDrain.delete(id);
+    this.bots.delete(id);
+    this.sessions.delete(id);
+    this.corpses.delete(id);
+    this.zoneDamage.delete(id);
+    this.rebuildSegmentGrid();
     this.updateLeaderboard();
   }
   
@@ -137,39 +463,51 @@ export class GameEngine {
   public handlePlayerInput(input: PlayerInput): void {
     const snake = this.state.snakes.find(s => s.id === input.id);
     if (snake && snake.alive) {
-      // Get the normalized direction
-      const normalizedDirection = normalizeVector(input.direction);
+      // Get the normalized direction, power-ups may bend it
+      let normalizedDirection = normalizeVector(input.direction);
+      for (const active of snake.activePowerUps) {
+        const onInput = POWER_UPS[active.type].onInput;
+        if (onInput) {
+          normalizedDirection = onInput(snake, normalizedDirection);
+        }
+      }
       
       // Adjust speed based on input magnitude - allows for speed control
       const inputMagnitude = Math.sqrt(input.direction.x * input.direction.x + input.direction.y * input.direction.y);
       const speedFactor = Math.min(1, inputMagnitude / 100); // Cap at normal speed
       
       // Calculate base speed (without boost)
-      snake.baseSpeed = 2 + speedFactor * 2; // Base speed between 2-4 based on input
-      
-      // Apply boost if active
-      if (snake.isBoosting) {
-        snake.speed = snake.baseSpeed * 2; // 2x speed boost
-      } else {
-        snake.speed = snake.baseSpeed;
-      }
+      snake.baseSpeed = MIN_SPEED + speedFactor * SPEED_RANGE; // 120-240 units per second based on input
+      this.updateSpeed(snake);
       
       // Set direction
       snake.direction = normalizedDirection;
     }
   }
   
-  // Activate boost for a player
+  // Activate boost for a player. With the meter it needs a full meter and
+  // runs for a fixed time; a sprint runs until stopBoost or the snake is too short.
   public activateBoost(playerId: string): boolean {
     const snake = this.state.snakes.find(s => s.id === playerId);
-    if (!snake || !snake.alive || snake.boostMeter < 100 || snake.isBoosting) {
+    if (!snake || !snake.alive || snake.isBoosting) {
       return false; // Can't boost
     }
     
+    if (this.rules.boostMode === 'sprint') {
+      if (snake.segments.length <= MIN_SPRINT_LENGTH) {
+        return false; // Nothing left to spend
+      }
+      snake.boostEndTime = 0;
+    } else {
+      if (snake.boostMeter < 100) {
+        return false;
+      }
+      snake.boostEndTime = this.clock.now() + this.rules.boostDuration;
+    }
+    
     // Activate boost
     snake.isBoosting = true;
-    snake.speed = snake.baseSpeed * 2; // Double the speed
-    snake.boostEndTime = Date.now() + 5000; // 5 seconds from now
+    this.updateSpeed(snake);
     
     // Emit boost start event
     this.emitEvent('boostStart', { playerId: snake.id });
@@ -177,35 +515,115 @@ export class GameEngine {
     return true;
   }
   
+  // The player let go of boost. Only ends sprints, a meter boost always runs its full time.
+  public stopBoost(playerId: string): boolean {
+    const snake = this.state.snakes.find(s => s.id === playerId);
+    if (!snake || !snake.isBoosting || this.rules.boostMode !== 'sprint') {
+      return false;
+    }
+    
+    this.endBoost(snake);
+    return true;
+  }
+  
+  private endBoost(snake: Snake): void {
+    snake.isBoosting = false;
+    this.updateSpeed(snake);
+    this.sprintDrain.delete(snake.id);
+    
+    // Emit boost end event
+    this.emitEvent('boostEnd', { playerId: snake.id });
+  }
+  
+  // Derive the actual speed from the base speed, boost and power-ups
+  private updateSpeed(snake: Snake): void {
+    const boost = snake.isBoosting ? this.rules.boostMultiplier : 1;
+    snake.speed = snake.baseSpeed * boost * getSpeedMultiplier(snake);
+  }
+  
+  // Run bot brains and apply their decisions like player input
+  private updateBots(): void {
+    for (const [id, brain] of Array.from(this.bots)) {
+      const snake = this.state.snakes.find(s => s.id === id);
+      if (!snake || !snake.alive) continue;
+      
+      const decision = brain.think(snake, this.botWorld);
+      if (!decision) continue;
+      
+      this.handlePlayerInput({ id, direction: decision.direction });
+      if (decision.boost && !snake.isBoosting) {
+        this.activateBoost(id);
+      } else if (!decision.boost && snake.isBoosting) {
+        this.stopBoost(id);
+      }
+    }
+  }
+  
   // Check if boost has ended
   private checkBoostStatus(): void {
-    const now = Date.now();
+    if (this.rules.boostMode !== 'meter') return;
+    
+    const now = this.clock.now();
     
     for (const snake of this.state.snakes) {
       if (snake.isBoosting && now >= snake.boostEndTime) {
         // Boost has ended
-        snake.isBoosting = false;
-        snake.speed = snake.baseSpeed;
         snake.boostMeter = 0; // Reset boost meter
-        
-        // Emit boost end event
-        this.emitEvent('boostEnd', { playerId: snake.id });
+        this.endBoost(snake);
       }
     }
   }
   
-  // Main game loop - updates game state
+  // Sprinting costs length: tail segments come off at sprintDrainRate and
+  // are left behind as small food
+  private drainSprinters(deltaTime: number): void {
+    if (this.rules.boostMode !== 'sprint') return;
+    
+    let dropped = false;
+    for (const snake of this.state.snakes) {
+      if (!snake.isBoosting) continue;
+      if (!snake.alive) {
+        this.endBoost(snake);
+        continue;
+      }
+      
+      let owed = (this.sprintDrain.get(snake.id) || 0) + this.rules.sprintDrainRate * deltaTime / 1000;
+      while (owed >= 1 && snake.segments.length > MIN_SPRINT_LENGTH) {
+        const tail = snake.segments.pop() as Point;
+        snake.score = Math.max(0, snake.score - 1);
+        this.spawnFoodAt({ ...tail }, 1);
+        owed -= 1;
+        dropped = true;
+      }
+      
+      if (snake.segments.length <= MIN_SPRINT_LENGTH) {
+        this.endBoost(snake); // Too short to keep going
+      } else {
+        this.sprintDrain.set(snake.id, owed);
+      }
+    }
+    
+    // Segment refs point past the new tails
+    if (dropped) {
+      this.rebuildSegmentGrid();
+    }
+  }
+  
+  // Advance the game by one step of `deltaTime` ms. Drive this from a
+  // FixedTimestepLoop: body segments are one step apart, so uneven steps
+  // would stretch and squash snakes.
   public update(deltaTime: number): void {
     // Spawn food at regular intervals
-    const now = Date.now();
+    const now = this.clock.now();
+    this.state.time = now;
     
-    if (now - this.lastFoodSpawn > this.foodSpawnRate) {
+    if (now - this.lastFoodSpawn > this.rules.foodSpawnRate) {
       this.spawnFood();
       this.lastFoodSpawn = now;
     }
     
     // Spawn power-ups at regular intervals
-    if (now - this.lastPowerUpSpawn > this.powerUpSpawnRate) {
+    if (this.rules.powerUpsEnabled && now - this.lastPowerUpSpawn > this.rules.powerUpSpawnRate) {
       this.spawnPowerUp();
       this.lastPowerUpSpawn = now;
     }
@@ -213,12 +631,30 @@ export class GameEngine {
     // Check for expired power-ups
     this.checkExpiredPowerUps();
     
+    // Let bots steer before anyone moves
+    this.updateBots();
+    
     // Update snake positions
     this.updateSnakes(deltaTime);
     
+    // Sprinting snakes shed their tail
+    this.drainSprinters(deltaTime);
+    
+    // Run ongoing power-up effects
+    this.tickPowerUps(deltaTime);
+    
     // Check for collisions
     this.checkCollisions();
     
+    // Battle royale: the zone closes in and snakes caught outside shrink
+    this.updateBattleRoyale(deltaTime, now);
+    
+    // Dead bodies turn into food and leave
+    this.dissolveCorpses(deltaTime);
+    
+    // Old food, and food past the cap, makes room for new food elsewhere
+    this.removeFoods(this.foodManager.collectDespawns(now));
+    
     // Check boost status
     this.checkBoostStatus();
     
@@ -234,37 +670,22 @@ export class GameEngine {
     for (const snake of this.state.snakes) {
       if (!snake.alive) continue;
       
-      // Calculate movement based on direction and speed
-      const movement = {
-        x: snake.direction.x * snake.speed,
-        y: snake.direction.y * snake.speed,
-      };
+      // Stopped snakes (frozen) stay put rather than bunching their body up at the head
+      if (snake.speed === 0) continue;
       
       // Move the head
-      const newHead: Point = {
-        x: snake.segments[0].x + movement.x,
-        y: snake.segments[0].y + movement.y,
-      };
+      const newHead = this.nextHeadPosition(snake, deltaTime);
       
       // Handle border danger zone and collision
       const isTooCloseToEdge = 
-        newHead.x < BORDER_DANGER_ZONE || 
-        newHead.x > this.state.width - BORDER_DANGER_ZONE ||
-        newHead.y < BORDER_DANGER_ZONE || 
-        newHead.y > this.state.height - BORDER_DANGER_ZONE;
+        newHead.x < this.rules.borderDangerZone || 
+        newHead.x > this.state.width - this.rules.borderDangerZone ||
+        newHead.y < this.rules.borderDangerZone || 
+        newHead.y > this.state.height - this.rules.borderDangerZone;
       
       // Kill snake if it's in the border danger zone
       if (isTooCloseToEdge) {
-        // Before killing the snake, drop food at its location
-        this.dropFoodFromSnake(snake);
-        
-        // Kill the snake
-        snake.alive = false;
-        
-        // Emit death by border event
-        this.emitEvent('playerDeathBorder', { playerId: snake.id });
-        
-        // Skip the rest of this iteration
+        this.resolveDeath(snake, 'border');
         continue;
       }
       
@@ -274,70 +695,232 @@ export class GameEngine {
       // Remove the last segment (tail) if not growing
       snake.segments.pop();
     }
+    
+    this.rebuildSegmentGrid();
+  }
+  
+  // Where a snake's head ends up after a step of `deltaTime` ms
+  private nextHeadPosition(snake: Snake, deltaTime: number): Point {
+    const distance = snake.speed * deltaTime / 1000;
+    return {
+      x: snake.segments[0].x + snake.direction.x * distance,
+      y: snake.segments[0].y + snake.direction.y * distance,
+    };
   }
   
-  // Drop food items where a snake died
-  private dropFoodFromSnake(snake: Snake): void {
-    // Calculate the number of food items to drop based on snake length
-    const foodCount = Math.ceil(snake.segments.length / 5); // One food per 5 segments
+  // Move a single snake one step without collisions, food or borders. Used by
+  // client-side prediction, which only simulates the local snake and leaves
+  // everything else to the server.
+  public stepSnake(id: string, deltaTime: number): void {
+    const snake = this.state.snakes.find(s => s.id === id);
+    if (!snake || !snake.alive || snake.speed === 0) return;
     
-    // Select segments to drop food at, distribute evenly
-    const segmentIndices = [];
-    for (let i = 0; i < foodCount; i++) {
-      const index = Math.floor(i * (snake.segments.length / foodCount));
-      segmentIndices.push(index);
+    snake.segments.unshift(this.nextHeadPosition(snake, deltaTime));
+    snake.segments.pop();
+  }
+  
+  // Replace a snake with a copy of an authoritative one, adding it if missing
+  public setSnake(snake: Snake): void {
+    const copy: Snake = {
+      ...snake,
+      segments: snake.segments.slice(),
+      direction: { ...snake.direction },
+      activePowerUps: snake.activePowerUps.map(p => ({ ...p })),
+    };
+    
+    const index = this.state.snakes.findIndex(s => s.id === snake.id);
+    if (index === -1) {
+      this.state.snakes.push(copy);
+    } else {
+      this.state.snakes[index] = copy;
+    }
+    this.rebuildSegmentGrid();
+  }
+  
+  // Move the safe zone on, wear down snakes outside it and settle the round
+  // once only one snake is left. A new round starts a little after that.
+  private updateBattleRoyale(deltaTime: number, now: number): void {
+    if (!this.safeZone) return;
+    
+    if (this.roundOverAt !== null) {
+      if (now - this.roundOverAt >= ROUND_RESTART_DELAY) {
+        this.startRound(now);
+      }
+      return;
     }
     
-    // Drop food at selected segments
-    for (const index of segmentIndices) {
-      const segment = snake.segments[index];
+    const zone = this.safeZone.update(now);
+    this.state.zone = zone;
+    
+    // Outside the zone, tail segments come off at zoneDamageRate and are left behind as food
+    let damaged = false;
+    for (const snake of this.state.snakes) {
+      if (!snake.alive) continue;
+      if (isInSafeZone(zone, snake.segments[0])) {
+        this.zoneDamage.delete(snake.id);
+        continue;
+      }
       
-      // Small random offset to spread the food out a bit
-      const offsetX = (Math.random() - 0.5) * 20;
-      const offsetY = (Math.random() - 0.5) * 20;
+      let owed = (this.zoneDamage.get(snake.id) || 0) + this.rules.zoneDamageRate * deltaTime / 1000;
+      while (owed >= 1 && snake.segments.length > ZONE_MIN_LENGTH) {
+        const tail = snake.segments.pop() as Point;
+        snake.score = Math.max(0, snake.score - 1);
+        this.spawnFoodAt({ ...tail }, 1);
+        owed -= 1;
+        damaged = true;
+      }
       
-      const position = {
-        x: segment.x + offsetX,
-        y: segment.y + offsetY
-      };
+      if (snake.segments.length <= ZONE_MIN_LENGTH) {
+        this.resolveDeath(snake, 'zone');
+      } else {
+        this.zoneDamage.set(snake.id, owed);
+      }
+    }
+    
+    // Segment refs point past the new tails
+    if (damaged) {
+      this.rebuildSegmentGrid();
+    }
+    
+    // A round needs two snakes to be won; once the zone has started closing
+    // the last one standing takes it, and nobody does if the last ones go
+    // down together. A round nobody contested ends without a winner once
+    // everyone is dead or the zone has closed, so the next one can start.
+    const alive = this.state.snakes.filter(snake => snake.alive);
+    if (alive.length >= 2) {
+      this.roundContested = true;
+    } else if (this.isRoundInProgress() && (this.roundContested || alive.length === 0 || zone.radius <= 0)) {
+      this.roundOverAt = now;
+      const winner = this.roundContested ? alive[0] : undefined;
+      if (winner) {
+        this.state.winnerId = winner.id;
+      }
+      this.emitEvent('roundOver', { playerId: winner?.id, name: winner?.name });
+    }
+  }
+  
+  // Whether a battle royale round is under way. Until the zone first
+  // shrinks, dead players can respawn and bots can join; after that the
+  // round is played out with whoever is left.
+  public isRoundInProgress(): boolean {
+    if (!this.safeZone || this.roundOverAt !== null) return false;
+    const zone = this.safeZone.getZone();
+    return zone.phase > 1 || this.clock.now() >= zone.shrinkStartsAt;
+  }
+  
+  // Open the zone up again for the next battle royale round
+  private startRound(now: number): void {
+    if (!this.safeZone) return;
+    
+    this.state.zone = this.safeZone.reset(now);
+    delete this.state.winnerId;
+    this.roundContested = false;
+    this.roundOverAt = null;
+    this.zoneDamage.clear();
+  }
+  
+  // Dead snakes dissolve from the tail over corpseDissolveTime, leaving food
+  // behind, and are taken off the map once nothing is left
+  private dissolveCorpses(deltaTime: number): void {
+    if (this.corpses.size === 0) return;
+    
+    const removed: Snake[] = [];
+    let fresh = false;
+    for (const snake of this.state.snakes) {
+      const corpse = this.corpses.get(snake.id);
+      if (!corpse || snake.alive) continue;
       
-      // Food value proportional to snake size
-      const value = Math.floor(Math.random() * 2) + 1; // 1-2 value
+      fresh = fresh || corpse.elapsed === 0;
+      corpse.elapsed += deltaTime;
+      const left = this.rules.corpseDissolveTime > 0
+        ? Math.ceil(corpse.length * (1 - corpse.elapsed / this.rules.corpseDissolveTime))
+        : 0;
+      this.dissolveSegments(snake, Math.max(0, left));
+      snake.corpseFade = corpse.length > 0 ? snake.segments.length / corpse.length : 0;
       
-      this.spawnFoodAt(position, value);
+      if (snake.segments.length === 0) {
+        removed.push(snake);
+      }
     }
     
-    // Drop a special high-value food at the head
-    if (snake.segments.length > 0) {
-      const head = snake.segments[0];
+    for (const snake of removed) {
+      this.removeCorpse(snake);
+    }
+    
+    // Snakes that died this tick are still indexed, and their bodies just got shorter
+    if (fresh) {
+      this.rebuildSegmentGrid();
+    }
+  }
+  
+  // Turn tail segments into food until `keep` segments are left. One food
+  // every 5 segments, plus a high-value one where the head was.
+  private dissolveSegments(snake: Snake, keep: number): void {
+    while (snake.segments.length > keep) {
+      const segment = snake.segments.pop() as Point;
+      const index = snake.segments.length;
+      
+      if (index % 5 === 0) {
+        // Small random offset to spread the food out a bit
+        const offsetX = (this.random() - 0.5) * 20;
+        const offsetY = (this.random() - 0.5) * 20;
+        const value = Math.floor(this.random() * 2) + 1; // 1-2 value
+        
+        this.spawnFoodAt({ x: segment.x + offsetX, y: segment.y + offsetY }, value);
+      }
       
-      this.spawnFoodAt({
-        x: head.x,
-        y: head.y
-      }, 3); // High value food
+      if (index === 0) {
+        this.spawnFoodAt({ x: segment.x, y: segment.y }, 3); // High value food
+      }
+    }
+  }
+  
+  // Take a fully dissolved snake off the map. Bots are gone for good, players
+  // keep their session and can still respawn.
+  private removeCorpse(snake: Snake): void {
+    this.state.snakes = this.state.snakes.filter(s => s !== snake);
+    this.corpses.delete(snake.id);
+    this.sprintDrain.delete(snake.id);
+    
+    if (this.bots.has(snake.id)) {
+      this.bots.delete(snake.id);
+      this.sessions.delete(snake.id);
+    } else {
+      const session = this.sessions.get(snake.id);
+      if (session) {
+        session.lastSnake = snake;
+      }
     }
+    
+    this.emitEvent('snakeRemoved', { playerId: snake.id, isBot: !!snake.isBot });
   }
   
   // Check for collisions between snakes and food
   private checkCollisions(): void {
+    // Heads meeting head-on are settled first, the loser can't also eat or hit a body
+    this.checkHeadOnCollisions();
+    
     // Check snake-food collisions
     for (const snake of this.state.snakes) {
       if (!snake.alive) continue;
       
       const head = snake.segments[0];
-      const foodsToRemove: string[] = [];
+      const eatenFoods: Food[] = [];
+      const reach = FOOD_COLLISION_DISTANCE * (snake.scale || 1);
+      const foodMultiplier = getFoodMultiplier(snake);
       
-      // Check collision with food
-      for (const food of this.state.foods) {
-        if (distance(head, food.position) < FOOD_COLLISION_DISTANCE + food.radius) {
+      // Check collision with food in nearby cells only
+      this.foodGrid.forEachNear(head, reach + this.maxFoodRadius, food => {
+        if (distance(head, food.position) < reach + food.radius) {
           // Snake eats food
-          snake.score += food.value;
+          const value = food.value * foodMultiplier;
+          snake.score += value;
           
           // Add new segments to the snake (growth)
           const tail = snake.segments[snake.segments.length - 1];
           
           // Growth proportional to food value
-          for (let i = 0; i < food.value; i++) {
+          for (let i = 0; i < value; i++) {
             snake.segments.push({ ...tail });
           }
           
@@ -360,38 +943,36 @@ export class GameEngine {
             });
           }
           
-          foodsToRemove.push(food.id);
+          eatenFoods.push(food);
         }
-      }
+      });
       
       // Remove eaten food
-      if (foodsToRemove.length > 0) {
-        this.state.foods = this.state.foods.filter(
-          food => !foodsToRemove.includes(food.id)
-        );
-      }
+      this.removeFoods(eatenFoods);
       
-      // Check snake-snake collisions
-      for (const otherSnake of this.state.snakes) {
-        // Skip self or dead snakes
-        if (snake.id === otherSnake.id || !otherSnake.alive) continue;
+      // Check snake-snake collisions against body segments (not heads) near this head.
+      // Bodies are as thick as they are drawn, so a giant is easier to run into.
+      let killer: Snake | null = null;
+      const firstOwnSegment = this.rules.selfCollision ? this.getSelfCollisionStart(snake) : Infinity;
+      this.segmentGrid.forEachNear(head, this.rules.collisionDistance * this.maxSnakeScale, ref => {
+        const otherSnake = ref.snake;
         
-        // Check collision with other snake's body (not head)
-        for (let i = 1; i < otherSnake.segments.length; i++) {
-          if (distance(head, otherSnake.segments[i]) < COLLISION_DISTANCE) {
-            // Drop food from the dying snake
-            this.dropFoodFromSnake(snake);
-            
-            // This snake died by collision
-            snake.alive = false;
-            
-            // Emit death event
-            this.emitEvent('playerDeath', { playerId: snake.id, killedBy: otherSnake.id });
-            
-            // Award points to the snake that was hit
-            otherSnake.score += Math.floor(snake.segments.length / 2);
-            break;
-          }
+        // Skip heads, dead snakes and our own neck (or whole body without self-collision)
+        if (ref.index === 0 || !otherSnake.alive) return;
+        if (otherSnake === snake && ref.index < firstOwnSegment) return;
+        
+        if (distance(head, otherSnake.segments[ref.index]) < this.rules.collisionDistance * (otherSnake.scale || 1)) {
+          killer = otherSnake;
+          return true;
+        }
+      });
+      
+      // Ghost and shield can save the snake
+      if (killer && this.handleSnakeCollision(snake, killer)) {
+        if (killer === snake) {
+          this.resolveDeath(snake, 'self');
+        } else {
+          this.resolveDeath(snake, 'collision', killer);
         }
       }
     }
@@ -401,27 +982,172 @@ export class GameEngine {
       if (!snake.alive) return;
       
       const head = snake.segments[0];
-      const headRadius = 12 * (snake.scale || 1);
+      const headRadius = HEAD_RADIUS * (snake.scale || 1);
+      const collected: PowerUp[] = [];
       
-      // Check collision with power-ups
-      this.state.powerUps = this.state.powerUps.filter(powerUp => {
+      // Check collision with nearby power-ups
+      this.powerUpGrid.forEachNear(head, headRadius + MAX_POWER_UP_RADIUS, powerUp => {
         if (distance(head, powerUp.position) < headRadius + powerUp.radius) {
           // Apply power-up effect
           this.applyPowerUpEffect(snake, powerUp.type);
-          return false;
+          collected.push(powerUp);
+          
+          this.emitEvent('powerUpCollect', {
+            playerId: snake.id,
+            type: powerUp.type,
+            duration: POWER_UPS[powerUp.type].duration
+          });
         }
-        return true;
       });
+      
+      if (collected.length > 0) {
+        this.removePowerUps(collected);
+      }
+    });
+  }
+  
+  // Index of the first own segment the head can run into: the head always
+  // overlaps the segments right behind it, so skip a stretch of the body
+  private getSelfCollisionStart(snake: Snake): number {
+    let length = 0;
+    for (let i = 1; i < snake.segments.length; i++) {
+      length += distance(snake.segments[i - 1], snake.segments[i]);
+      if (length > SELF_COLLISION_GAP * (snake.scale || 1)) return i;
+    }
+    return snake.segments.length;
+  }
+  
+  // Resolve heads that ran into each other according to the head-on rule
+  private checkHeadOnCollisions(): void {
+    for (const snake of this.state.snakes) {
+      if (!snake.alive) continue;
+      
+      const head = snake.segments[0];
+      let other: Snake | null = null;
+      this.segmentGrid.forEachNear(head, this.rules.collisionDistance * this.maxSnakeScale, ref => {
+        const candidate = ref.snake;
+        if (candidate === snake || ref.index !== 0 || !candidate.alive) return;
+        
+        const reach = this.rules.collisionDistance * ((snake.scale || 1) + (candidate.scale || 1)) / 2;
+        if (distance(head, candidate.segments[0]) < reach) {
+          other = candidate;
+          return true;
+        }
+      });
+      
+      if (other) {
+        this.resolveHeadOn(snake, other);
+      }
+    }
+  }
+  
+  // The snake that survives a head-on collision, or null if neither does
+  private getHeadOnWinner(a: Snake, b: Snake): Snake | null {
+    const rule = this.rules.headOnRule;
+    if (rule === 'both-die') return null;
+    
+    if (rule === 'boosting-wins' && a.isBoosting !== b.isBoosting) {
+      return a.isBoosting ? a : b;
+    }
+    
+    if (a.segments.length === b.segments.length) return null;
+    return a.segments.length > b.segments.length ? a : b;
+  }
+  
+  private resolveHeadOn(a: Snake, b: Snake): void {
+    const winner = this.getHeadOnWinner(a, b);
+    
+    // Power-ups (ghost, shield) can still save the losers
+    const aDies = winner !== a && this.handleSnakeCollision(a, b);
+    const bDies = winner !== b && this.handleSnakeCollision(b, a);
+    if (!aDies && !bDies) return;
+    
+    // Announced before the deaths so listeners see the impact first
+    this.emitEvent('headOnCollision', {
+      playerId: a.id,
+      otherId: b.id,
+      winnerId: aDies && bDies ? undefined : (aDies ? b.id : a.id),
+      at: {
+        x: (a.segments[0].x + b.segments[0].x) / 2,
+        y: (a.segments[0].y + b.segments[0].y) / 2
+      }
+    });
+    
+    // Only an outright win counts as a kill
+    if (aDies) this.resolveDeath(a, 'head-on', winner === b ? b : undefined);
+    if (bDies) this.resolveDeath(b, 'head-on', winner === a ? a : undefined);
+  }
+  
+  // Remove power-ups from the state and the spatial index
+  private removePowerUps(powerUps: PowerUp[]): void {
+    for (const powerUp of powerUps) {
+      this.powerUpGrid.remove(powerUp, powerUp.position);
+    }
+    this.state.powerUps = this.state.powerUps.filter(powerUp => !powerUps.includes(powerUp));
+  }
+  
+  // Run the per-tick hooks of every active power-up
+  private tickPowerUps(deltaTime: number): void {
+    for (const snake of this.state.snakes) {
+      if (!snake.alive) continue;
+      
+      for (const active of snake.activePowerUps.slice()) {
+        const onTick = POWER_UPS[active.type].onTick;
+        if (onTick) {
+          onTick(snake, this.powerUpContext, deltaTime);
+        }
+      }
+    }
+  }
+  
+  // Move food within `radius` of a point up to `step` units towards it
+  private pullFood(target: Point, radius: number, step: number): void {
+    const nearby: Food[] = [];
+    this.foodGrid.forEachNear(target, radius, food => {
+      if (distance(target, food.position) < radius) {
+        nearby.push(food);
+      }
+    });
+    
+    // Move after the query so grid cells aren't changed while iterating them
+    for (const food of nearby) {
+      const dist = distance(target, food.position);
+      if (dist === 0) continue;
+      
+      const moved = Math.min(step, dist);
+      const position = {
+        x: food.position.x + (target.x - food.position.x) / dist * moved,
+        y: food.position.y + (target.y - food.position.y) / dist * moved,
+      };
+      
+      // Replace rather than mutate the point: snapshots share it with the
+      // engine and compare positions to find moved food
+      this.foodGrid.move(food, food.position, position);
+      this.foodManager.move(food, position);
+      food.position = position;
+    }
+  }
+  
+  // Live snakes with any segment within `radius` of a point
+  private getSnakesNear(position: Point, radius: number): Snake[] {
+    const found = new Set<Snake>();
+    this.segmentGrid.forEachNear(position, radius, ref => {
+      if (ref.snake.alive && distance(position, ref.snake.segments[ref.index]) < radius) {
+        found.add(ref.snake);
+      }
     });
+    return Array.from(found);
   }
   
   // Update the leaderboard
   private updateLeaderboard(): void {
     const leaderboard = this.state.snakes
+      .filter(snake => snake.alive)
       .map(snake => ({
         id: snake.id,
         name: snake.name,
         score: snake.score,
+        isBot: snake.isBot,
       }))
       .sort((a, b) => b.score - a.score)
       .slice(0, 10); // Top 10
@@ -429,11 +1155,97 @@ export class GameEngine {
     this.state.leaderboard = leaderboard;
   }
   
+  // The rules this game is played with
+  public getRules(): GameRules {
+    return this.rules;
+  }
+  
+  // The random source the game runs on, seeded games replay exactly as long
+  // as everything driving them draws from it
+  public getRandom(): RandomSource {
+    return this.random;
+  }
+  
   // Get the current game state
   public getState(): GameState {
     return this.state;
   }
 
+  // Get a copy of the state containing only entities inside a rectangle
+  // around a point. The snake with the given id is always included.
+  public getStateInView(center: Point, halfWidth: number, halfHeight: number, playerId?: string): GameState {
+    const minX = center.x - halfWidth;
+    const maxX = center.x + halfWidth;
+    const minY = center.y - halfHeight;
+    const maxY = center.y + halfHeight;
+    const inView = (p: Point) => p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY;
+    const searchRadius = Math.sqrt(halfWidth * halfWidth + halfHeight * halfHeight);
+    
+    const foods: Food[] = [];
+    this.foodGrid.forEachNear(center, searchRadius, food => {
+      if (inView(food.position)) foods.push(food);
+    });
+    
+    // A snake is visible if any of its segments is in view
+    const visibleSnakes = new Set<Snake>();
+    this.segmentGrid.forEachNear(center, searchRadius, ref => {
+      if (!visibleSnakes.has(ref.snake) && inView(ref.snake.segments[ref.index])) {
+        visibleSnakes.add(ref.snake);
+      }
+    });
+    
+    // Keep the original ordering and include dead snakes whose body is in view
+    const snakes = this.state.snakes.filter(snake =>
+      snake.id === playerId ||
+      visibleSnakes.has(snake) ||
+      (!snake.alive && snake.segments.length > 0 && inView(snake.segments[0]))
+    );
+    
+    return {
+      width: this.state.width,
+      height: this.state.height,
+      snakes,
+      foods,
+      powerUps: this.state.powerUps.filter(powerUp => inView(powerUp.position)),
+      leaderboard: this.state.leaderboard,
+      zone: this.state.zone,
+      winnerId: this.state.winnerId,
+      time: this.state.time,
+    };
+  }
+  
+  // Build a coarse overview of the whole map for minimaps
+  public getMinimapSummary(cols: number = 20, rows: number = 20): MinimapSummary {
+    const cells = new Array<number>(cols * rows).fill(0);
+    const cellWidth = this.state.width / cols;
+    const cellHeight = this.state.height / rows;
+    
+    for (const food of this.state.foods) {
+      const col = Math.min(cols - 1, Math.max(0, Math.floor(food.position.x / cellWidth)));
+      const row = Math.min(rows - 1, Math.max(0, Math.floor(food.position.y / cellHeight)));
+      cells[row * cols + col]++;
+    }
+    
+    return {
+      width: this.state.width,
+      height: this.state.height,
+      snakes: this.state.snakes
+        .filter(snake => snake.alive && snake.segments.length > 0)
+        .map(snake => ({
+          id: snake.id,
+          color: snake.color,
+          x: Math.round(snake.segments[0].x),
+          y: Math.round(snake.segments[0].y),
+          length: snake.segments.length,
+        })),
+      powerUps: this.state.powerUps.map(powerUp => ({
+        x: Math.round(powerUp.position.x),
+        y: Math.round(powerUp.position.y),
+      })),
+      foodDensity: { cols, rows, cells },
+    };
+  }
+
   // Get a player's rank in the game
   public getPlayerRank(playerId: string): number {
     const state = this.getState();
@@ -448,61 +1260,63 @@ export class GameEngine {
     return playerIndex >= 0 ? playerIndex + 1 : 0;
   }
 
-  private killSnake(index: number, killer?: Snake): void {
-    const snake = this.state.snakes[index];
-    if (!snake || !snake.alive) return;
+  // The single place snakes die: drops their food, credits the killer and
+  // emits the death (and kill) events everyone else relies on
+  private resolveDeath(snake: Snake, cause: DeathCause, killer?: Snake): void {
+    if (!snake.alive) return;
     
-    // Set snake to dead
     snake.alive = false;
+    snake.corpseFade = 1;
+    this.zoneDamage.delete(snake.id);
+    this.corpses.set(snake.id, { length: snake.segments.length, elapsed: 0 });
     
-    // If there's a killer, increment their score based on the dead snake's length
-    if (killer && killer.id !== snake.id) {
-      const scoreGain = Math.floor(snake.segments.length * 10);
+    const head = snake.segments[0];
+    const at = head ? { x: head.x, y: head.y } : undefined;
+    
+    // Fold this life into the session totals
+    const now = this.clock.now();
+    const session = this.sessions.get(snake.id);
+    const playTime = session ? now - session.lifeStartedAt : 0;
+    if (session) {
+      const stats = session.stats;
+      stats.deaths++;
+      stats.kills += snake.kills;
+      stats.totalScore += snake.score;
+      stats.bestScore = Math.max(stats.bestScore, snake.score);
+      stats.longestLength = Math.max(stats.longestLength, snake.segments.length);
+      stats.playTime += playTime;
+    }
+    
+    // Credit the snake that was run into
+    if (killer && killer !== snake) {
+      const scoreGain = Math.floor(snake.segments.length / 2);
       killer.score += scoreGain;
-      killer.kills += 1; // Increment kill count
-      killer.lastKill = snake.id; // Track the last player killed
+      killer.kills += 1;
+      killer.lastKill = snake.id;
       
-      // Create a kill event
-      this.emitEvent('playerKill', { 
-        playerId: killer.id, 
-        killedId: snake.id,
+      this.emitEvent('playerKill', {
+        playerId: killer.id,
+        victimId: snake.id,
         scoreGain,
-        at: { 
-          x: snake.segments[0].x, 
-          y: snake.segments[0].y 
-        }
+        at
       });
     }
     
-    // Convert snake segments to food particles and add them to the state
-    for (let i = 0; i < snake.segments.length; i++) {
-      if (i % 3 === 0) { // Only create food for every 3rd segment to reduce lag
-        this.state.foods.push({
-          id: `food-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-          position: { x: snake.segments[i].x, y: snake.segments[i].y },
-          value: 1,
-          color: snake.color,
-          radius: 3,
-          glowIntensity: 0.5
-        });
-      }
-    }
-    
-    // Create death event
-    this.emitEvent('playerDeath', { 
+    this.emitEvent(cause === 'border' ? 'playerDeathBorder' : 'playerDeath', {
       playerId: snake.id,
-      at: { 
-        x: snake.segments[0].x, 
-        y: snake.segments[0].y 
-      },
-      killerId: killer?.id
+      cause,
+      killerId: killer?.id,
+      score: snake.score,
+      playTime,
+      session: session ? { ...session.stats } : undefined,
+      at
     });
   }
 
   // Spawn a new power-up
   private spawnPowerUp(): void {
     // Don't spawn if we're at the maximum
-    if (this.state.powerUps.length >= this.maxPowerUps) {
+    if (this.state.powerUps.length >= this.rules.maxPowerUps) {
       return;
     }
     
@@ -510,17 +1324,19 @@ export class GameEngine {
     const position = this.getRandomPosition();
     
     // Create a new power-up
-    const powerUp = createPowerUp(uuidv4(), position);
+    const powerUp = createPowerUp(this.createId(), position, this.random, this.clock.now());
     
     // Add to game state
     this.state.powerUps.push(powerUp);
+    this.powerUpGrid.insert(powerUp, powerUp.position);
   }
   
   // Check for expired power-ups and remove them
   private checkExpiredPowerUps(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     this.state.powerUps = this.state.powerUps.filter(powerUp => {
       if (now > powerUp.expiryTime) {
+        this.powerUpGrid.remove(powerUp, powerUp.position);
         this.emitEvent('powerUpExpire', { powerUpId: powerUp.id, type: powerUp.type });
         return false;
       }
@@ -530,84 +1346,87 @@ export class GameEngine {
   
   // Check and update power-up status for all snakes
   private checkPowerUpStatus(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     
     this.state.snakes.forEach(snake => {
       if (!snake.alive) return;
       
-      // Filter out expired power-ups
-      snake.activePowerUps = snake.activePowerUps.filter(powerUp => {
-        if (now >= powerUp.endTime) {
-          // Emit event when power-up expires
-          this.emitEvent('powerUpExpire', { 
-            playerId: snake.id, 
-            type: powerUp.type 
-          });
-          return false;
-        }
-        return true;
-      });
+      // End expired power-ups
+      const expired = snake.activePowerUps.filter(powerUp => now >= powerUp.endTime);
+      for (const powerUp of expired) {
+        this.endPowerUp(snake, powerUp.type);
+      }
     });
   }
   
   // Apply power-up effects to a snake
   private applyPowerUpEffect(snake: Snake, type: PowerUpType): void {
-    const now = Date.now();
-    const duration = 10000; // 10 seconds
+    const definition = POWER_UPS[type];
+    const alreadyActive = snake.activePowerUps.some(p => p.type === type);
+    
+    // Collecting an active power-up again only refreshes the timer
+    if (!alreadyActive && definition.onApply) {
+      definition.onApply(snake, this.powerUpContext);
+    }
+    
+    // Instant power-ups are done once applied
+    if (definition.duration > 0) {
+      snake.activePowerUps = snake.activePowerUps.filter(p => p.type !== type);
+      snake.activePowerUps.push({
+        type,
+        endTime: this.clock.now() + definition.duration
+      });
+    }
+    
+    this.updateSpeed(snake);
+  }
+  
+  // Remove an active power-up and undo its effects
+  private endPowerUp(snake: Snake, type: PowerUpType): void {
+    if (!snake.activePowerUps.some(p => p.type === type)) return;
     
-    // Remove existing power-up of the same type
     snake.activePowerUps = snake.activePowerUps.filter(p => p.type !== type);
     
-    // Add the new power-up
-    snake.activePowerUps.push({
-      type,
-      endTime: now + duration
-    });
+    const onExpire = POWER_UPS[type].onExpire;
+    if (onExpire) {
+      onExpire(snake, this.powerUpContext);
+    }
+    this.updateSpeed(snake);
     
-    // Special immediate effects
-    switch (type) {
-      case 'giant':
-        // Make the snake bigger temporarily
-        snake.scale = (snake.scale || 1) * 1.5;
-        break;
-      case 'shield':
-        // Shield effects are handled during collision
-        break;
-      case 'ghost':
-        // Ghost effects are handled during collision
-        break;
-      case 'magnet':
-        // Magnet effects are handled during movement
-        break;
-    }
-    
-    // Emit event
-    this.emitEvent('powerUpCollect', {
-      playerId: snake.id,
-      type: type,
-      duration: duration
+    // Emit event when power-up expires
+    this.emitEvent('powerUpExpire', { 
+      playerId: snake.id, 
+      type 
     });
   }
-
-  // Handle snake-to-snake collisions with power-up effects
+  
+  // Handle snake1's head hitting snake2's body with power-up effects.
+  // Returns whether snake1 dies.
   private handleSnakeCollision(snake1: Snake, snake2: Snake): boolean {
-    // Check if snake has a ghost power-up
-    const hasGhost = snake1.activePowerUps.some(p => p.type === 'ghost');
-    if (hasGhost) {
-      return false; // Ghost snakes pass through others
+    // Still recovering from a hit a shield absorbed
+    if (snake1.invulnerableUntil && this.clock.now() < snake1.invulnerableUntil) {
+      return false;
     }
     
-    // Check if snake has a shield power-up
-    const hasShield = snake1.activePowerUps.some(p => p.type === 'shield');
-    if (hasShield) {
-      // Shield prevents death but is consumed
-      snake1.activePowerUps = snake1.activePowerUps.filter(p => p.type !== 'shield');
-      return false;
+    // Any active power-up can save the snake (ghost, shield)
+    for (const active of snake1.activePowerUps.slice()) {
+      const onLethalHit = POWER_UPS[active.type].onLethalHit;
+      if (onLethalHit && onLethalHit(snake1, this.powerUpContext)) {
+        return false;
+      }
     }
     
     return true; // Normal collision
   }
 
+  // A uniformly random point at least `margin` from the edges
+  private getRandomPoint(margin: number): Point {
+    return {
+      x: margin + this.random() * (this.state.width - 2 * margin),
+      y: margin + this.random() * (this.state.height - 2 * margin),
+    };
+  }
+  
   // Get a random position that's not too close to any snake
   private getRandomPosition(): Point {
     const margin = 50; // Margin from world edges
@@ -619,17 +1438,17 @@ export class GameEngine {
     
     // Try to find a position that's not too close to any snake
     do {
-      position = {
-        x: margin + Math.random() * (this.state.width - 2 * margin),
-        y: margin + Math.random() * (this.state.height - 2 * margin)
-      };
+      position = this.getRandomPoint(margin);
       
-      // Check distance from all snakes
-      isTooClose = this.state.snakes.some(snake => {
-        if (!snake.alive) return false;
-        return snake.segments.some(segment => {
-          return distance(segment, position) < minDistFromSnake;
-        });
+      // Check distance from nearby snake segments only
+      const candidate = position;
+      isTooClose = false;
+      this.segmentGrid.forEachNear(candidate, minDistFromSnake, ref => {
+        if (!ref.snake.alive) return;
+        if (distance(ref.snake.segments[ref.index], candidate) < minDistFromSnake) {
+          isTooClose = true;
+          return true;
+        }
       });
       
       attempts++;
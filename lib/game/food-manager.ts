@@ -0,0 +1,175 @@
+import { Food, Point } from './models';
+import { GameRules } from './rules';
+import { RandomSource } from './random';
+
+// Food economy. The map is split into square regions, each with its share of
+// a food budget worth foodCount spawned items. New food goes to the regions
+// furthest below their share, sometimes as a whole cluster ("food field"),
+// and stops while the map holds its budget. Every food on the map counts,
+// food dropped by dying and sprinting snakes included, so mass moves around
+// rather than piling up. Food left uneaten for foodLifetime despawns to make
+// room elsewhere, and past a hard cap the oldest food goes first.
+//
+// The engine still stores food in GameState; the manager keeps the books and
+// tells it where to spawn and what to despawn.
+
+const REGION_SIZE = 500; // World units per side of a region
+const MEAN_FOOD_VALUE = 2; // Average value of a spawned food, turns foodCount into a mass budget
+const FOOD_CAP_FACTOR = 2; // Never more than this many times foodCount food items on the map
+const MIN_FOOD_CAP = 200; // ...but always room for this many, so dropped food survives with little or no spawning
+const FIELD_MIN_SIZE = 4; // Food items in a field
+const FIELD_MAX_SIZE = 10;
+const FIELD_RADIUS = 80; // How far a field spreads from its centre
+const EDGE_MARGIN = 50; // Spawned food keeps this far from the edges
+
+export class FoodManager {
+  private width: number;
+  private height: number;
+  private cols: number;
+  private rows: number;
+  private budget: number; // Total food value the map is stocked up to
+  private cap: number; // Most food items allowed on the map
+  private lifetime: number;
+  private fieldChance: number;
+  private mass: number = 0; // Total value of the food on the map
+  private regionMass: number[];
+  private regionTarget: number[]; // Each region's share of the budget, by area
+  private spawnedAt: Map<Food, number> = new Map(); // Oldest first
+
+  constructor(width: number, height: number, rules: GameRules) {
+    this.width = width;
+    this.height = height;
+    this.cols = Math.max(1, Math.ceil(width / REGION_SIZE));
+    this.rows = Math.max(1, Math.ceil(height / REGION_SIZE));
+    this.budget = rules.foodCount * MEAN_FOOD_VALUE;
+    this.cap = Math.max(MIN_FOOD_CAP, rules.foodCount * FOOD_CAP_FACTOR);
+    this.lifetime = rules.foodLifetime;
+    this.fieldChance = rules.foodFieldChance;
+
+    this.regionMass = new Array<number>(this.cols * this.rows).fill(0);
+    this.regionTarget = this.regionMass.map((_, region) => {
+      const bounds = this.getRegionBounds(region);
+      const area = (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY);
+      return this.budget * area / (width * height);
+    });
+  }
+
+  // Count a food that was just added to the map
+  public track(food: Food, now: number): void {
+    if (this.spawnedAt.has(food)) return;
+    this.spawnedAt.set(food, now);
+    this.mass += food.value;
+    this.regionMass[this.getRegion(food.position)] += food.value;
+  }
+
+  // Stop counting a food that was eaten or despawned
+  public untrack(food: Food): void {
+    if (!this.spawnedAt.delete(food)) return;
+    this.mass -= food.value;
+    this.regionMass[this.getRegion(food.position)] -= food.value;
+  }
+
+  // A food is about to move, e.g. pulled by a magnet
+  public move(food: Food, to: Point): void {
+    if (!this.spawnedAt.has(food)) return;
+    this.regionMass[this.getRegion(food.position)] -= food.value;
+    this.regionMass[this.getRegion(to)] += food.value;
+  }
+
+  // Total value of the food on the map
+  public getMass(): number {
+    return this.mass;
+  }
+
+  // Where to spawn food next: one position, a field's worth, or none while
+  // the map holds its budget
+  public planSpawn(random: RandomSource): Point[] {
+    if (this.mass >= this.budget || this.spawnedAt.size >= this.cap) return [];
+
+    const region = this.pickHungryRegion(random);
+    if (region === -1) return [];
+
+    const bounds = this.getRegionBounds(region);
+    const centre = {
+      x: bounds.minX + random() * (bounds.maxX - bounds.minX),
+      y: bounds.minY + random() * (bounds.maxY - bounds.minY),
+    };
+
+    if (random() >= this.fieldChance) {
+      return [this.clampToMap(centre)];
+    }
+
+    const size = FIELD_MIN_SIZE + Math.floor(random() * (FIELD_MAX_SIZE - FIELD_MIN_SIZE + 1));
+    const positions: Point[] = [];
+    for (let i = 0; i < size; i++) {
+      // Denser towards the middle of the field
+      const angle = random() * Math.PI * 2;
+      const radius = random() * random() * FIELD_RADIUS;
+      positions.push(this.clampToMap({
+        x: centre.x + Math.cos(angle) * radius,
+        y: centre.y + Math.sin(angle) * radius,
+      }));
+    }
+    return positions;
+  }
+
+  // Food that should leave the map now, oldest first: anything past the cap,
+  // then anything older than foodLifetime. The caller removes it and untracks it.
+  public collectDespawns(now: number): Food[] {
+    const despawned: Food[] = [];
+    let excess = this.spawnedAt.size - this.cap;
+
+    for (const [food, spawnedAt] of Array.from(this.spawnedAt.entries())) {
+      if (excess > 0) {
+        excess--;
+      } else if (this.lifetime <= 0 || now - spawnedAt < this.lifetime) {
+        break; // Everything after this is younger
+      }
+      despawned.push(food);
+    }
+
+    return despawned;
+  }
+
+  // A region short of food, picked at random weighted by how short it is,
+  // or -1 when every region has its share
+  private pickHungryRegion(random: RandomSource): number {
+    let totalDeficit = 0;
+    for (let region = 0; region < this.regionMass.length; region++) {
+      totalDeficit += Math.max(0, this.regionTarget[region] - this.regionMass[region]);
+    }
+    if (totalDeficit <= 0) return -1;
+
+    let roll = random() * totalDeficit;
+    for (let region = 0; region < this.regionMass.length; region++) {
+      const deficit = Math.max(0, this.regionTarget[region] - this.regionMass[region]);
+      roll -= deficit;
+      if (roll < 0 && deficit > 0) return region;
+    }
+    return -1;
+  }
+
+  private getRegion(position: Point): number {
+    const col = Math.min(this.cols - 1, Math.max(0, Math.floor(position.x / REGION_SIZE)));
+    const row = Math.min(this.rows - 1, Math.max(0, Math.floor(position.y / REGION_SIZE)));
+    return row * this.cols + col;
+  }
+
+  private getRegionBounds(region: number): { minX: number, minY: number, maxX: number, maxY: number } {
+    const col = region % this.cols;
+    const row = Math.floor(region / this.cols);
+    return {
+      minX: col * REGION_SIZE,
+      minY: row * REGION_SIZE,
+      maxX: Math.min(this.width, (col + 1) * REGION_SIZE),
+      maxY: Math.min(this.height, (row + 1) * REGION_SIZE),
+    };
+  }
+
+  private clampToMap(position: Point): Point {
+    return {
+      x: Math.min(this.width - EDGE_MARGIN, Math.max(EDGE_MARGIN, position.x)),
+      y: Math.min(this.height - EDGE_MARGIN, Math.max(EDGE_MARGIN, position.y)),
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { SIMULATION_STEP } from './loop';
+import { GameState, Point, Snake } from './models';
+
+// Smooths remote snakes between server snapshots in multiplayer.
+//
+// Snapshots are buffered with the time they arrived and other players' snakes
+// are drawn slightly in the past, blending between the two snapshots around
+// that time. Segment i of one snapshot is blended with segment i of the next,
+// which follows the body's path closely because every simulation step shifts
+// the body by one segment. If no snapshot arrives in time the last one is
+// extrapolated along the snake's heading for a short while. The local snake is never delayed.
+
+// A snapshot and when it was received (ms, performance.now() clock)
+interface TimedState {
+  time: number;
+  state: GameState;
+}
+
+const INTERPOLATION_DELAY = 100; // How far in the past remote snakes are drawn, about 3 snapshots
+const MAX_EXTRAPOLATION = 250; // Stop extrapolating after this long without a snapshot
+const BUFFER_DURATION = 1000; // How much history to keep
+const MAX_BLEND_DISTANCE = 200; // Heads further apart than this between snapshots are a teleport, don't blend
+
+function lerpPoint(a: Point, b: Point, t: number): Point {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  };
+}
+
+// Blend a snake between two snapshots
+function interpolateSnake(from: Snake | undefined, to: Snake, t: number): Snake {
+  if (!from || !from.alive || !to.alive || from.segments.length === 0 || to.segments.length === 0) {
+    return to;
+  }
+
+  const fromHead = from.segments[0];
+  const toHead = to.segments[0];
+  if (Math.abs(toHead.x - fromHead.x) + Math.abs(toHead.y - fromHead.y) > MAX_BLEND_DISTANCE) {
+    return to;
+  }
+
+  const segments = to.segments.map((segment, i) => {
+    const previous = from.segments[i];
+    return previous ? lerpPoint(previous, segment, t) : segment;
+  });
+
+  return { ...to, segments };
+}
+
+// Move a snake forward along its heading as if `elapsed` ms of steps had run
+function extrapolateSnake(snake: Snake, elapsed: number): Snake {
+  if (!snake.alive || snake.segments.length === 0 || elapsed <= 0) return snake;
+
+  const steps = elapsed / SIMULATION_STEP;
+  const ahead = Math.ceil(steps);
+  const head = snake.segments[0];
+  const stride = snake.speed * SIMULATION_STEP / 1000; // Distance covered per step
+
+  // The path the body will follow: future heads first, then the current body
+  const path: Point[] = [];
+  for (let k = ahead; k > 0; k--) {
+    path.push({
+      x: head.x + snake.direction.x * stride * k,
+      y: head.y + snake.direction.y * stride * k,
+    });
+  }
+  path.push(...snake.segments);
+
+  // Every segment slides `steps` places towards the front of the path
+  const segments = snake.segments.map((_, i) => {
+    const index = ahead + i - steps;
+    const base = Math.floor(index);
+    const next = path[Math.min(base + 1, path.length - 1)];
+    return lerpPoint(path[base], next, index - base);
+  });
+
+  return { ...snake, segments };
+}
+
+export class SnapshotInterpolator {
+  private buffer: TimedState[] = [];
+  private delay: number;
+
+  constructor(delay: number = INTERPOLATION_DELAY) {
+    this.delay = delay;
+  }
+
+  // Buffer a snapshot as it arrives
+  public push(state: GameState, time: number): void {
+    this.buffer.push({ time, state });
+
+    // Drop old history but always keep a pair to blend between
+    while (this.buffer.length > 2 && this.buffer[0].time < time - BUFFER_DURATION) {
+      this.buffer.shift();
+    }
+  }
+
+  // Forget all buffered snapshots, e.g. after rejoining
+  public clear(): void {
+    this.buffer = [];
+  }
+
+  // Build the state to draw at `time`. Everything except remote snakes comes
+  // from the latest snapshot; the local player's snake is never delayed.
+  public sample(time: number, localPlayerId?: string | null): GameState | null {
+    if (this.buffer.length === 0) return null;
+
+    const latest = this.buffer[this.buffer.length - 1];
+    const renderTime = time - this.delay;
+    let snakes: Snake[];
+
+    if (renderTime >= latest.time) {
+      // The next snapshot is late, keep things moving for a little while
+      const elapsed = Math.min(renderTime - latest.time, MAX_EXTRAPOLATION);
+      snakes = latest.state.snakes.map(snake =>
+        snake.id === localPlayerId ? snake : extrapolateSnake(snake, elapsed)
+      );
+    } else if (renderTime <= this.buffer[0].time) {
+      snakes = this.buffer[0].state.snakes;
+    } else {
+      // Find the pair of snapshots around the render time
+      let i = this.buffer.length - 2;
+      while (i > 0 && this.buffer[i].time > renderTime) i--;
+
+      const from = this.buffer[i];
+      const to = this.buffer[i + 1];
+      const t = (renderTime - from.time) / (to.time - from.time || 1);
+
+      const previous = new Map(from.state.snakes.map(snake => [snake.id, snake]));
+      snakes = to.state.snakes.map(snake => interpolateSnake(previous.get(snake.id), snake, t));
+    }
+
+    // Swap in the newest version of the local snake
+    if (localPlayerId) {
+      const localSnake = latest.state.snakes.find(snake => snake.id === localPlayerId);
+      const withoutLocal = snakes.filter(snake => snake.id !== localPlayerId);
+      snakes = localSnake ? [...withoutLocal, localSnake] : withoutLocal;
+    }
+
+    return { ...latest.state, snakes };
+  }
+}
@@ -0,0 +1,47 @@
+// Fixed-timestep simulation loop. Real elapsed time goes into an accumulator
+// and the simulation advances in equal steps, so the game runs at the same
+// speed on a 144Hz monitor, a 30Hz server timer or a stuttering tab. Shared by
+// the offline loop in GameCanvas, the server rooms and client-side prediction.
+
+export const SIMULATION_STEP = 1000 / 60; // ms of game time per step, the same everywhere
+
+// Time beyond this many steps per advance is dropped instead of simulated,
+// e.g. after a background tab or a long GC pause
+const DEFAULT_MAX_STEPS = 10;
+
+export class FixedTimestepLoop {
+  private onStep: (step: number) => void;
+  private step: number;
+  private maxSteps: number;
+  private accumulator: number = 0;
+
+  constructor(onStep: (step: number) => void, step: number = SIMULATION_STEP, maxSteps: number = DEFAULT_MAX_STEPS) {
+    this.onStep = onStep;
+    this.step = step;
+    this.maxSteps = maxSteps;
+  }
+
+  // Feed real elapsed time (ms) and run as many whole steps as fit. Returns
+  // the number of steps run.
+  public advance(elapsed: number): number {
+    this.accumulator = Math.min(this.accumulator + Math.max(0, elapsed), this.step * this.maxSteps);
+
+    let steps = 0;
+    while (this.accumulator >= this.step) {
+      this.accumulator -= this.step;
+      this.onStep(this.step);
+      steps++;
+    }
+    return steps;
+  }
+
+  // How far into the next step we are (0-1), for rendering between steps
+  public getAlpha(): number {
+    return this.accumulator / this.step;
+  }
+
+  // Drop any leftover time
+  public reset(): void {
+    this.accumulator = 0;
+  }
+}
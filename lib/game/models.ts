@@ -1,12 +1,25 @@
 // Game types and models
 
+import { RandomSource } from "./random";
+import { POWER_UPS, POWER_UP_LIFETIME, pickPowerUpType } from "./powerups";
+
 export interface Point {
   x: number;
   y: number;
 }
 
-// PowerUp types that can be collected
-export type PowerUpType = "shield" | "magnet" | "ghost" | "giant";
+// PowerUp types, each described by an entry in POWER_UPS (powerups.ts)
+export type PowerUpType =
+  | "shield"
+  | "magnet"
+  | "ghost"
+  | "giant"
+  | "speed"
+  | "freeze-ray"
+  | "frozen"
+  | "food-doubler"
+  | "reverse-controls"
+  | "invisibility";
 
 // PowerUp item that appears on the map
 export interface PowerUp {
@@ -31,7 +44,7 @@ export interface Snake {
   color: string;
   segments: Point[];
   direction: Point;
-  speed: number;
+  speed: number; // World units per second
   baseSpeed: number; // Base speed without boost
   score: number;
   alive: boolean;
@@ -46,6 +59,9 @@ export interface Snake {
   kills: number; // Add kill tracking for multiplayer
   lastKill?: string; // Keep track of the last player killed
   activePowerUps: ActivePowerUp[]; // Currently active power-ups
+  invulnerableUntil?: number; // Collisions with other snakes are ignored until this time
+  isBot?: boolean; // Steered by a bot brain instead of a player
+  corpseFade?: number; // Dead snakes: share of the body not yet dissolved, 1 at death down to 0
 }
 
 export interface Food {
@@ -59,6 +75,20 @@ export interface Food {
   pulseRate?: number;
 }
 
+// The battle royale safe zone, a circle that shrinks in phases. Snakes
+// outside it lose length. Replaced rather than mutated when it changes.
+export interface SafeZone {
+  x: number; // Current circle
+  y: number;
+  radius: number;
+  nextX: number; // The circle this phase shrinks to
+  nextY: number;
+  nextRadius: number;
+  phase: number; // Counts up from 1 with every shrink
+  shrinkStartsAt: number; // When the circle starts closing in on the next one
+  shrinkEndsAt: number; // When it gets there
+}
+
 export interface GameState {
   width: number;
   height: number;
@@ -69,12 +99,43 @@ export interface GameState {
     id: string;
     name: string;
     score: number;
+    isBot?: boolean;
+  }[];
+  zone?: SafeZone; // Battle royale only
+  winnerId?: string; // Battle royale: the last snake alive, once the round is decided
+  time?: number; // Engine clock when the state was taken, its timestamps (zone, spawn protection, boosts, power-ups) are on this clock
+}
+
+// Coarse, low-frequency overview of the whole map used to draw the minimap
+// when the client only receives the entities around its own snake
+export interface MinimapSummary {
+  width: number;
+  height: number;
+  snakes: {
+    id: string;
+    color: string;
+    x: number;
+    y: number;
+    length: number;
   }[];
+  powerUps: Point[];
+  foodDensity: {
+    cols: number;
+    rows: number;
+    cells: number[]; // Food count per cell, row-major
+  };
+}
+
+// Size of a client's screen in pixels, used for view culling
+export interface ViewportSize {
+  width: number;
+  height: number;
 }
 
 export interface PlayerInput {
   id: string;
   direction: Point;
+  seq?: number; // Client sequence number, acknowledged in later snapshots
 }
 
 // Helper functions for game logic
@@ -91,44 +152,63 @@ export function normalizeVector(p: Point): Point {
   };
 }
 
-export function createSnake(id: string, name: string, position: Point): Snake {
-  // Enhanced color palette with vibrant cosmic colors
-  const colors = [
-    "#FF5252", "#FF4081", "#E040FB", "#7C4DFF", 
-    "#536DFE", "#448AFF", "#40C4FF", "#18FFFF", 
-    "#64FFDA", "#69F0AE", "#B2FF59", "#EEFF41",
-    "#FFFF00", "#FFD740", "#FFAB40", "#FF6E40",
-    "#8A2BE2", "#9370DB", "#BA55D3", "#DA70D6",
-    "#00FFFF", "#00BFFF", "#1E90FF", "#4169E1"
-  ];
-  
-  // Secondary colors for patterns and gradients
-  const secondaryColors = [
-    "#FFFFFF", "#FFD700", "#FF8C00", "#FF1493",
-    "#9400D3", "#4B0082", "#0000FF", "#00FF00"
-  ];
+// Enhanced color palette with vibrant cosmic colors
+export const SNAKE_COLORS = [
+  "#FF5252", "#FF4081", "#E040FB", "#7C4DFF", 
+  "#536DFE", "#448AFF", "#40C4FF", "#18FFFF", 
+  "#64FFDA", "#69F0AE", "#B2FF59", "#EEFF41",
+  "#FFFF00", "#FFD740", "#FFAB40", "#FF6E40",
+  "#8A2BE2", "#9370DB", "#BA55D3", "#DA70D6",
+  "#00FFFF", "#00BFFF", "#1E90FF", "#4169E1"
+];
+
+// Secondary colors for patterns and gradients
+export const SNAKE_SECONDARY_COLORS = [
+  "#FFFFFF", "#FFD700", "#FF8C00", "#FF1493",
+  "#9400D3", "#4B0082", "#0000FF", "#00FF00"
+];
+
+// Enhanced cosmic-themed food colors
+export const FOOD_COLORS = [
+  "#FFC107", "#FF9800", "#FF5722", "#F44336", // Reds/Oranges
+  "#9C27B0", "#673AB7", "#3F51B5", "#2196F3", // Purples/Blues
+  "#00BCD4", "#009688", "#4CAF50", "#8BC34A", // Teals/Greens
+  "#CDDC39", "#FFEB3B", "#FFC107", "#FF9800", // Yellows/Ambers
+  "#00FFFF", "#1E90FF", "#7FFFD4", "#FF1493"  // Cyan/Pink/Aqua
+];
+
+export function createSnake(
+  id: string,
+  name: string,
+  position: Point,
+  random: RandomSource = Math.random,
+  direction: Point = { x: 1, y: 0 }
+): Snake {
+  const colors = SNAKE_COLORS;
+  const secondaryColors = SNAKE_SECONDARY_COLORS;
   
   // Pattern types for visual variety
   const patterns = ["solid", "striped", "gradient", "glowing"];
   
   // Random color selection
-  const colorIndex = Math.floor(Math.random() * colors.length);
+  const colorIndex = Math.floor(random() * colors.length);
   const color = colors[colorIndex];
   
   // Secondary color that complements the main color
-  const secondaryColor = secondaryColors[Math.floor(Math.random() * secondaryColors.length)];
+  const secondaryColor = secondaryColors[Math.floor(random() * secondaryColors.length)];
   
   // Choose a random pattern
-  const pattern = patterns[Math.floor(Math.random() * patterns.length)] as "solid" | "striped" | "gradient" | "glowing";
+  const pattern = patterns[Math.floor(random() * patterns.length)] as "solid" | "striped" | "gradient" | "glowing";
   
   // Generate segments for the snake
   const segments: Point[] = [];
   const segmentCount = 10; // Initial snake length
   
+  // Laid out behind the head, facing the starting direction
   for (let i = 0; i < segmentCount; i++) {
     segments.push({
-      x: position.x - i,
-      y: position.y,
+      x: position.x - direction.x * i,
+      y: position.y - direction.y * i,
     });
   }
   
@@ -137,16 +217,16 @@ export function createSnake(id: string, name: string, position: Point): Snake {
     name,
     color,
     segments,
-    direction: { x: 1, y: 0 }, // Start moving right
-    speed: 3,
-    baseSpeed: 3, // Default base speed
+    direction: { ...direction },
+    speed: 180, // World units per second
+    baseSpeed: 180, // Default base speed
     score: 0,
     alive: true,
     // Visual enhancements
     pattern,
     secondaryColor,
-    glowIntensity: Math.random() * 0.5 + 0.5, // 0.5 - 1.0
-    scale: Math.random() * 0.2 + 0.9, // 0.9 - 1.1 size variation
+    glowIntensity: random() * 0.5 + 0.5, // 0.5 - 1.0
+    scale: random() * 0.2 + 0.9, // 0.9 - 1.1 size variation
     boostMeter: 0,
     isBoosting: false,
     boostEndTime: 0,
@@ -156,18 +236,11 @@ export function createSnake(id: string, name: string, position: Point): Snake {
   };
 }
 
-export function createFood(id: string, position: Point): Food {
-  // Enhanced cosmic-themed food colors
-  const colors = [
-    "#FFC107", "#FF9800", "#FF5722", "#F44336", // Reds/Oranges
-    "#9C27B0", "#673AB7", "#3F51B5", "#2196F3", // Purples/Blues
-    "#00BCD4", "#009688", "#4CAF50", "#8BC34A", // Teals/Greens
-    "#CDDC39", "#FFEB3B", "#FFC107", "#FF9800", // Yellows/Ambers
-    "#00FFFF", "#1E90FF", "#7FFFD4", "#FF1493"  // Cyan/Pink/Aqua
-  ];
+export function createFood(id: string, position: Point, random: RandomSource = Math.random): Food {
+  const colors = FOOD_COLORS;
   
-  const value = Math.floor(Math.random() * 3) + 1; // 1-3 points
-  const baseRadius = Math.floor(Math.random() * 3) + 3; // 3-5 base radius
+  const value = Math.floor(random() * 3) + 1; // 1-3 points
+  const baseRadius = Math.floor(random() * 3) + 3; // 3-5 base radius
   
   // Scale radius by value so more valuable food is larger
   const radius = baseRadius * Math.sqrt(value);
@@ -176,27 +249,26 @@ export function createFood(id: string, position: Point): Food {
     id,
     position,
     value,
-    color: colors[Math.floor(Math.random() * colors.length)],
+    color: colors[Math.floor(random() * colors.length)],
     radius,
     // Visual enhancements
-    glowIntensity: Math.random() * 0.7 + 0.3, // 0.3 - 1.0
-    pulseRate: Math.random() * 2 + 1 // 1-3 (speed of pulsing)
+    glowIntensity: random() * 0.7 + 0.3, // 0.3 - 1.0
+    pulseRate: random() * 2 + 1 // 1-3 (speed of pulsing)
   };
 }
 
 // Create a new power-up
-export function createPowerUp(id: string, position: Point): PowerUp {
-  const types: PowerUpType[] = ["shield", "magnet", "ghost", "giant"];
-  const type = types[Math.floor(Math.random() * types.length)];
+export function createPowerUp(id: string, position: Point, random: RandomSource = Math.random, now: number = Date.now()): PowerUp {
+  const type = pickPowerUpType(random);
   
   return {
     id,
     position,
     type,
     radius: 10, // Power-ups are larger than regular food
-    duration: 10000, // 10 seconds duration when collected
-    spawnTime: Date.now(),
-    expiryTime: Date.now() + 30000 // Disappears after 30 seconds if not collected
+    duration: POWER_UPS[type].duration, // How long the effect lasts when collected
+    spawnTime: now,
+    expiryTime: now + POWER_UP_LIFETIME // Disappears if not collected
   };
 }
 
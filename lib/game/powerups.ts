@@ -0,0 +1,182 @@
+import { Point, PowerUpType, Snake } from './models';
+import { RandomSource } from './random';
+
+// Power-up registry. Every type is described here: how often it spawns, how
+// long it lasts, what it does and how it's drawn. The engine and renderer
+// only go through these definitions, so adding a power-up means adding it to
+// PowerUpType in models.ts and giving it an entry below.
+
+// What a power-up hook may do to the world, provided by the engine
+export interface PowerUpContext {
+  now(): number;
+  // Live snakes with a segment within `radius` of a point
+  getSnakesNear(position: Point, radius: number): Snake[];
+  // Move food within `radius` of a point up to `step` units towards it
+  pullFood(target: Point, radius: number, step: number): void;
+  // Give a snake an effect, e.g. one that can't be picked up on the map
+  grantPowerUp(snake: Snake, type: PowerUpType): void;
+  // End an active effect early, running its onExpire hook
+  endPowerUp(snake: Snake, type: PowerUpType): void;
+}
+
+export interface PowerUpDefinition {
+  spawnWeight: number; // Relative chance to spawn on the map, 0 never spawns
+  duration: number; // How long the effect lasts (ms), 0 for instant effects that only run onApply
+  color: string;
+  glowColor: string;
+  icon: string;
+
+  // Passive modifiers, combined over every active effect
+  speedMultiplier?: number;
+  foodMultiplier?: number; // Score and growth from eaten food
+  opacity?: number; // How visible the snake is to other players
+
+  onApply?(snake: Snake, context: PowerUpContext): void; // Collected, or granted when not already active
+  onTick?(snake: Snake, context: PowerUpContext, deltaTime: number): void;
+  onExpire?(snake: Snake, context: PowerUpContext): void;
+  // The snake's head hit another snake's body. Return true to survive it.
+  onLethalHit?(snake: Snake, context: PowerUpContext): boolean;
+  // Rewrite the steering direction from player input
+  onInput?(snake: Snake, direction: Point): Point;
+}
+
+const SHIELD_GRACE_PERIOD = 1000; // Invulnerability after a shield absorbs a hit, time to steer clear (ms)
+const MAGNET_RADIUS = 150; // Food closer than this to the head is pulled in
+const MAGNET_PULL_SPEED = 300; // World units per second
+const GIANT_SCALE = 1.5; // Size and collision radius multiplier while giant
+const FREEZE_RAY_RADIUS = 500; // Snakes this close to the collector get frozen
+
+export const POWER_UP_LIFETIME = 30000; // How long an uncollected power-up stays on the map (ms)
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  shield: {
+    spawnWeight: 3,
+    duration: 10000,
+    color: '#4FC3F7',
+    glowColor: '#29B6F6',
+    icon: '🛡️',
+    // Absorbs one hit and is used up. The head is still inside the other
+    // body, so give the snake a moment to get out before hits count again.
+    onLethalHit: (snake, context) => {
+      context.endPowerUp(snake, 'shield');
+      snake.invulnerableUntil = context.now() + SHIELD_GRACE_PERIOD;
+      return true;
+    },
+  },
+  magnet: {
+    spawnWeight: 3,
+    duration: 10000,
+    color: '#BA68C8',
+    glowColor: '#AB47BC',
+    icon: '🧲',
+    onTick: (snake, context, deltaTime) => {
+      context.pullFood(snake.segments[0], MAGNET_RADIUS, MAGNET_PULL_SPEED * deltaTime / 1000);
+    },
+  },
+  ghost: {
+    spawnWeight: 2,
+    duration: 10000,
+    color: '#B0BEC5',
+    glowColor: '#90A4AE',
+    icon: '👻',
+    opacity: 0.5,
+    onLethalHit: () => true, // Passes through other snakes
+  },
+  giant: {
+    spawnWeight: 2,
+    duration: 10000,
+    color: '#FFB74D',
+    glowColor: '#FFA726',
+    icon: '🔱',
+    onApply: (snake) => {
+      snake.scale = (snake.scale || 1) * GIANT_SCALE;
+    },
+    onExpire: (snake) => {
+      snake.scale = (snake.scale || 1) / GIANT_SCALE;
+    },
+  },
+  speed: {
+    spawnWeight: 3,
+    duration: 6000,
+    color: '#FFF176',
+    glowColor: '#FFEE58',
+    icon: '⚡',
+    speedMultiplier: 1.5,
+  },
+  'freeze-ray': {
+    spawnWeight: 1,
+    duration: 0,
+    color: '#80DEEA',
+    glowColor: '#4DD0E1',
+    icon: '❄️',
+    onApply: (snake, context) => {
+      for (const other of context.getSnakesNear(snake.segments[0], FREEZE_RAY_RADIUS)) {
+        if (other !== snake) {
+          context.grantPowerUp(other, 'frozen');
+        }
+      }
+    },
+  },
+  // Only handed out by the freeze ray
+  frozen: {
+    spawnWeight: 0,
+    duration: 2500,
+    color: '#E0F7FA',
+    glowColor: '#B2EBF2',
+    icon: '🧊',
+    speedMultiplier: 0,
+  },
+  'food-doubler': {
+    spawnWeight: 2,
+    duration: 10000,
+    color: '#AED581',
+    glowColor: '#9CCC65',
+    icon: '🍀',
+    foodMultiplier: 2,
+  },
+  // A trap: whoever picks it up steers the wrong way for a while
+  'reverse-controls': {
+    spawnWeight: 1,
+    duration: 5000,
+    color: '#E57373',
+    glowColor: '#EF5350',
+    icon: '🔄',
+    onInput: (_snake, direction) => ({ x: -direction.x, y: -direction.y }),
+  },
+  invisibility: {
+    spawnWeight: 1,
+    duration: 8000,
+    color: '#CFD8DC',
+    glowColor: '#B0BEC5',
+    icon: '🫥',
+    opacity: 0.1,
+  },
+};
+
+// Pick a type to spawn on the map, weighted by spawnWeight
+export function pickPowerUpType(random: RandomSource): PowerUpType {
+  const types = Object.keys(POWER_UPS) as PowerUpType[];
+  const total = types.reduce((sum, type) => sum + POWER_UPS[type].spawnWeight, 0);
+
+  let roll = random() * total;
+  for (const type of types) {
+    roll -= POWER_UPS[type].spawnWeight;
+    if (roll < 0 && POWER_UPS[type].spawnWeight > 0) return type;
+  }
+  return types.find(type => POWER_UPS[type].spawnWeight > 0) as PowerUpType;
+}
+
+// Combined speed multiplier of a snake's active effects
+export function getSpeedMultiplier(snake: Snake): number {
+  return snake.activePowerUps.reduce((product, p) => product * (POWER_UPS[p.type].speedMultiplier ?? 1), 1);
+}
+
+// Combined food multiplier of a snake's active effects
+export function getFoodMultiplier(snake: Snake): number {
+  return snake.activePowerUps.reduce((product, p) => product * (POWER_UPS[p.type].foodMultiplier ?? 1), 1);
+}
+
+// How visible a snake is to others, the least visible active effect wins
+export function getSnakeOpacity(snake: Snake): number {
+  return snake.activePowerUps.reduce((opacity, p) => Math.min(opacity, POWER_UPS[p.type].opacity ?? 1), 1);
+}
@@ -0,0 +1,128 @@
+import { GameEngine } from './engine';
+import { FixedTimestepLoop, SIMULATION_STEP } from './loop';
+import { Point, Snake } from './models';
+import { GameRules } from './rules';
+import { InputAck } from './snapshot';
+
+// Client-side prediction for the local snake in multiplayer.
+//
+// Inputs are applied to a private engine as soon as they are sent, and the
+// snake is stepped with the same fixed timestep as the server so it moves
+// without waiting a round trip. When an authoritative snapshot arrives the
+// predicted snake is reset to the server's and every input the server hasn't
+// acknowledged yet is replayed on top of it. Only the local snake is simulated; food, collisions
+// and deaths are left to the server.
+
+// An input sent to the server, kept until a snapshot acknowledges it
+interface PendingInput {
+  seq: number;
+  direction: Point;
+  ticks: number; // Steps simulated locally while this was the latest input
+}
+
+// Inputs never acknowledged (lost connection, server restart) are dropped past this
+const MAX_PENDING_INPUTS = 120;
+
+
+export class PredictionController {
+  private engine: GameEngine;
+  private playerId: string | null = null;
+  private pending: PendingInput[] = [];
+  private loop: FixedTimestepLoop;
+  private lastTime: number | null = null;
+
+  // Pass the room's rules so boosts and speeds match the server. The engine
+  // only ever steps one snake, so it gets no food or power-ups of its own.
+  constructor(width: number, height: number, rules: Partial<GameRules> = {}) {
+    this.engine = new GameEngine(width, height, { ...rules, foodCount: 0, powerUpsEnabled: false });
+    this.loop = new FixedTimestepLoop(step => this.step(step));
+  }
+
+  // Apply an input locally right after sending it to the server
+  public applyInput(seq: number, direction: Point): void {
+    if (!this.playerId) return;
+
+    this.engine.handlePlayerInput({ id: this.playerId, direction, seq });
+    this.pending.push({ seq, direction, ticks: 0 });
+
+    if (this.pending.length > MAX_PENDING_INPUTS) {
+      this.pending.shift();
+    }
+  }
+
+  // Step the predicted snake forward to the given time (ms, e.g. from requestAnimationFrame)
+  public advance(time: number): void {
+    if (this.lastTime === null) {
+      this.lastTime = time;
+      return;
+    }
+
+    // The loop drops time past a few steps, e.g. after the tab was in the
+    // background; the next snapshot corrects the position anyway
+    this.loop.advance(time - this.lastTime);
+    this.lastTime = time;
+  }
+
+  // Move the snake one step and charge it to the latest input
+  private step(step: number): void {
+    if (!this.playerId) return;
+
+    this.engine.stepSnake(this.playerId, step);
+    if (this.pending.length > 0) {
+      this.pending[this.pending.length - 1].ticks++;
+    }
+  }
+
+  // Rebase the prediction on an authoritative snapshot of the local snake
+  public reconcile(authoritative: Snake, ack: InputAck | null): void {
+    if (authoritative.id !== this.playerId) {
+      // New snake (first join or a rejoin), nothing pending applies to it
+      this.reset();
+      this.playerId = authoritative.id;
+    }
+
+    this.engine.setSnake(authoritative);
+
+    if (!authoritative.alive) {
+      this.pending = [];
+      return;
+    }
+
+    // Forget inputs the server has moved past, but keep the latest acked one:
+    // the server may have simulated fewer steps with it than we did
+    if (ack) {
+      this.pending = this.pending.filter(input => input.seq >= ack.seq);
+    }
+
+    for (const input of this.pending) {
+      let ticks = input.ticks;
+
+      if (ack && input.seq === ack.seq) {
+        // Already applied by the server, only replay the steps it hasn't run yet
+        ticks -= ack.ticks;
+      } else {
+        this.engine.handlePlayerInput({ id: authoritative.id, direction: input.direction, seq: input.seq });
+      }
+
+      for (let i = 0; i < ticks; i++) {
+        this.engine.stepSnake(authoritative.id, SIMULATION_STEP);
+      }
+    }
+  }
+
+  // The predicted local snake, or null before the first snapshot
+  public getSnake(): Snake | null {
+    if (!this.playerId) return null;
+    return this.engine.getState().snakes.find(snake => snake.id === this.playerId) || null;
+  }
+
+  // Drop the current snake and all pending inputs
+  public reset(): void {
+    if (this.playerId) {
+      this.engine.removePlayer(this.playerId);
+    }
+    this.playerId = null;
+    this.pending = [];
+    this.loop.reset();
+  }
+}
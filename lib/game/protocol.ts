@@ -0,0 +1,685 @@
+import { GameState, Point, SNAKE_COLORS, SNAKE_SECONDARY_COLORS, FOOD_COLORS } from './models';
+import { StateSnapshot, StateKeyframe, StateDelta, SnakeDelta, InputAck } from './snapshot';
+
+// Binary wire protocol shared by the game server and the socket client.
+//
+// Every message starts with a magic byte, the protocol version and a message
+// type. Coordinates are quantized to COORD_SCALE, integers are varints and
+// colors are indices into COLOR_PALETTE. Entity ids are sent as strings the
+// first time they appear and as small integers afterwards; the id table is
+// per connection and starts over with every keyframe.
+//
+// Bump PROTOCOL_VERSION whenever the encoding, a schema or the palette changes.
+
+export const PROTOCOL_VERSION = 9;
+
+export type WireFormat = 'binary' | 'json';
+
+const MAGIC = 0x53; // 'S'
+
+const MESSAGE_KEYFRAME = 1;
+const MESSAGE_DELTA = 2;
+const MESSAGE_INPUT = 3;
+const MESSAGE_LEADERBOARD = 4;
+
+const COORD_SCALE = 10; // 0.1 world unit precision
+
+// Colors known to both sides, anything else is sent as a string
+export const COLOR_PALETTE: string[] = Array.from(new Set([
+  ...SNAKE_COLORS,
+  ...SNAKE_SECONDARY_COLORS,
+  ...FOOD_COLORS,
+]));
+const PALETTE_INDEX = new Map(COLOR_PALETTE.map((color, index) => [color, index]));
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+export class ProtocolVersionError extends ProtocolError {
+  public readonly expected: number;
+  public readonly received: number;
+
+  constructor(expected: number, received: number) {
+    super(
+      `Game protocol version mismatch: expected v${expected}, got v${received}. ` +
+      `Please refresh the page to get the latest client.`
+    );
+    this.name = 'ProtocolVersionError';
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// Normalize whatever socket.io hands us (Buffer, ArrayBuffer, typed array) to bytes
+export function toBytes(data: unknown): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  throw new ProtocolError('Expected a binary game message');
+}
+
+class ByteWriter {
+  private buffer: Uint8Array = new Uint8Array(256);
+  private length: number = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  public writeU8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  // Unsigned LEB128. Uses arithmetic instead of bit ops so values above 2^31
+  // (timestamps) survive.
+  public writeVarUint(value: number): void {
+    let v = Math.max(0, Math.floor(value));
+    while (v >= 0x80) {
+      this.writeU8((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.writeU8(v);
+  }
+
+  // Zigzag-encoded signed varint
+  public writeVarInt(value: number): void {
+    const v = Math.round(value);
+    this.writeVarUint(v >= 0 ? v * 2 : -v * 2 - 1);
+  }
+
+  public writeString(value: string): void {
+    const bytes = new TextEncoder().encode(value);
+    this.writeVarUint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  public finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private offset: number = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  public readU8(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new ProtocolError('Unexpected end of game message');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  public readVarUint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this.readU8();
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 0x80;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  public readVarInt(): number {
+    const v = this.readVarUint();
+    return v % 2 === 0 ? v / 2 : -(v + 1) / 2;
+  }
+
+  public readString(): string {
+    const length = this.readVarUint();
+    if (this.offset + length > this.bytes.length) {
+      throw new ProtocolError('Unexpected end of game message');
+    }
+    const value = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+// Maps entity id strings to small integers for the lifetime of a connection
+class IdTable {
+  private indexById: Map<string, number> = new Map();
+  private ids: string[] = [];
+
+  public reset(): void {
+    this.indexById.clear();
+    this.ids = [];
+  }
+
+  public write(w: ByteWriter, id: string): void {
+    const index = this.indexById.get(id);
+    if (index !== undefined) {
+      w.writeVarUint(index + 1);
+      return;
+    }
+
+    // First time we see this id: send it in full and register it
+    w.writeVarUint(0);
+    w.writeString(id);
+    this.indexById.set(id, this.ids.length);
+    this.ids.push(id);
+  }
+
+  public read(r: ByteReader): string {
+    const ref = r.readVarUint();
+    if (ref === 0) {
+      const id = r.readString();
+      this.indexById.set(id, this.ids.length);
+      this.ids.push(id);
+      return id;
+    }
+
+    const id = this.ids[ref - 1];
+    if (id === undefined) {
+      throw new ProtocolError(`Unknown id reference ${ref} in game message`);
+    }
+    return id;
+  }
+}
+
+// Value codecs
+
+interface Codec<T = any> {
+  write(w: ByteWriter, value: T, ids: IdTable): void;
+  read(r: ByteReader, ids: IdTable): T;
+}
+
+const varUint: Codec<number> = {
+  write: (w, value) => w.writeVarUint(value),
+  read: r => r.readVarUint(),
+};
+
+const varInt: Codec<number> = {
+  write: (w, value) => w.writeVarInt(value),
+  read: r => r.readVarInt(),
+};
+
+const bool: Codec<boolean> = {
+  write: (w, value) => w.writeU8(value ? 1 : 0),
+  read: r => r.readU8() === 1,
+};
+
+const str: Codec<string> = {
+  write: (w, value) => w.writeString(value),
+  read: r => r.readString(),
+};
+
+// Ids and other strings that repeat a lot (power-up types, patterns)
+const id: Codec<string> = {
+  write: (w, value, ids) => ids.write(w, value),
+  read: (r, ids) => ids.read(r),
+};
+
+const color: Codec<string> = {
+  write: (w, value) => {
+    const index = PALETTE_INDEX.get(value);
+    if (index !== undefined) {
+      w.writeVarUint(index + 1);
+    } else {
+      w.writeVarUint(0);
+      w.writeString(value);
+    }
+  },
+  read: r => {
+    const ref = r.readVarUint();
+    if (ref === 0) return r.readString();
+
+    const value = COLOR_PALETTE[ref - 1];
+    if (value === undefined) {
+      throw new ProtocolError(`Unknown palette color ${ref} in game message`);
+    }
+    return value;
+  },
+};
+
+function quantized(scale: number): Codec<number> {
+  return {
+    write: (w, value) => w.writeVarInt(value * scale),
+    read: r => r.readVarInt() / scale,
+  };
+}
+
+function pointOf(scale: number): Codec<Point> {
+  return {
+    write: (w, value) => {
+      w.writeVarInt(value.x * scale);
+      w.writeVarInt(value.y * scale);
+    },
+    read: r => ({ x: r.readVarInt() / scale, y: r.readVarInt() / scale }),
+  };
+}
+
+const position = pointOf(COORD_SCALE);
+
+function listOf<T>(codec: Codec<T>): Codec<T[]> {
+  return {
+    write: (w, values, ids) => {
+      w.writeVarUint(values.length);
+      values.forEach(value => codec.write(w, value, ids));
+    },
+    read: (r, ids) => {
+      const count = r.readVarUint();
+      const values: T[] = [];
+      for (let i = 0; i < count; i++) values.push(codec.read(r, ids));
+      return values;
+    },
+  };
+}
+
+// Segment lists: first point absolute, the rest relative to the previous one
+const segmentList: Codec<Point[]> = {
+  write: (w, points) => {
+    w.writeVarUint(points.length);
+    let prevX = 0;
+    let prevY = 0;
+    for (const point of points) {
+      const x = Math.round(point.x * COORD_SCALE);
+      const y = Math.round(point.y * COORD_SCALE);
+      w.writeVarInt(x - prevX);
+      w.writeVarInt(y - prevY);
+      prevX = x;
+      prevY = y;
+    }
+  },
+  read: r => {
+    const count = r.readVarUint();
+    const points: Point[] = [];
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < count; i++) {
+      x += r.readVarInt();
+      y += r.readVarInt();
+      points.push({ x: x / COORD_SCALE, y: y / COORD_SCALE });
+    }
+    return points;
+  },
+};
+
+// Object schemas. Each object is written as a bitmask of present fields, a
+// bitmask of cleared fields (null in deltas), the present values in schema
+// order, then any keys the schema doesn't know as JSON so new fields never get
+// silently dropped. Keep schemas under 31 fields.
+
+type Schema = [string, Codec][];
+
+function writeFields(w: ByteWriter, schema: Schema, obj: { [key: string]: any }, ids: IdTable, skip: string[] = []): void {
+  let setMask = 0;
+  let clearMask = 0;
+  schema.forEach(([key], i) => {
+    const value = obj[key];
+    if (value === null) clearMask |= 1 << i;
+    else if (value !== undefined) setMask |= 1 << i;
+  });
+
+  const extras = Object.keys(obj).filter(key =>
+    obj[key] !== undefined && !skip.includes(key) && !schema.some(([known]) => known === key)
+  );
+
+  w.writeVarUint(setMask);
+  w.writeVarUint(clearMask);
+  schema.forEach(([key, codec], i) => {
+    if (setMask & (1 << i)) codec.write(w, obj[key], ids);
+  });
+
+  w.writeVarUint(extras.length);
+  for (const key of extras) {
+    w.writeString(key);
+    w.writeString(JSON.stringify(obj[key]));
+  }
+}
+
+function readFields(r: ByteReader, schema: Schema, ids: IdTable): { [key: string]: any } {
+  const result: { [key: string]: any } = {};
+  const setMask = r.readVarUint();
+  const clearMask = r.readVarUint();
+
+  schema.forEach(([key, codec], i) => {
+    if (setMask & (1 << i)) result[key] = codec.read(r, ids);
+    else if (clearMask & (1 << i)) result[key] = null;
+  });
+
+  const extraCount = r.readVarUint();
+  for (let i = 0; i < extraCount; i++) {
+    const key = r.readString();
+    result[key] = JSON.parse(r.readString());
+  }
+  return result;
+}
+
+function objectOf(schema: Schema): Codec {
+  return {
+    write: (w, value, ids) => writeFields(w, schema, value, ids),
+    read: (r, ids) => readFields(r, schema, ids),
+  };
+}
+
+const ACTIVE_POWER_UP_SCHEMA: Schema = [
+  ['type', id],
+  ['endTime', varInt],
+];
+
+// Everything on Snake except id and segments, which are written separately
+const SNAKE_SCHEMA: Schema = [
+  ['name', str],
+  ['color', color],
+  ['direction', pointOf(10000)],
+  ['speed', quantized(100)], // World units per second
+  ['baseSpeed', quantized(100)],
+  ['score', varInt],
+  ['alive', bool],
+  ['pattern', id],
+  ['secondaryColor', color],
+  ['glowIntensity', quantized(1000)],
+  ['scale', quantized(1000)],
+  ['boostMeter', quantized(100)],
+  ['isBoosting', bool],
+  ['boostEndTime', varInt],
+  ['kills', varUint],
+  ['lastKill', id],
+  ['activePowerUps', listOf(objectOf(ACTIVE_POWER_UP_SCHEMA))],
+  ['invulnerableUntil', varInt],
+  ['isBot', bool],
+  ['corpseFade', quantized(1000)],
+];
+
+// Everything on Food except id and position
+const FOOD_SCHEMA: Schema = [
+  ['value', quantized(100)],
+  ['color', color],
+  ['radius', quantized(100)],
+  ['glowIntensity', quantized(1000)],
+  ['pulseRate', quantized(1000)],
+];
+
+// Everything on PowerUp except id and position
+const POWER_UP_SCHEMA: Schema = [
+  ['type', id],
+  ['radius', quantized(100)],
+  ['duration', varInt],
+  ['spawnTime', varInt],
+  ['expiryTime', varInt],
+];
+
+const LEADERBOARD_ENTRY_SCHEMA: Schema = [
+  ['id', id],
+  ['name', str],
+  ['score', varInt],
+  ['isBot', bool],
+];
+
+const leaderboardList = listOf(objectOf(LEADERBOARD_ENTRY_SCHEMA));
+
+const SAFE_ZONE_SCHEMA: Schema = [
+  ['x', quantized(10)],
+  ['y', quantized(10)],
+  ['radius', quantized(10)],
+  ['nextX', quantized(10)],
+  ['nextY', quantized(10)],
+  ['nextRadius', quantized(10)],
+  ['phase', varUint],
+  ['shrinkStartsAt', varInt],
+  ['shrinkEndsAt', varInt],
+];
+
+// Top-level GameState fields other than the entity collections
+const STATE_SCHEMA: Schema = [
+  ['width', varUint],
+  ['height', varUint],
+  ['leaderboard', leaderboardList],
+  ['zone', objectOf(SAFE_ZONE_SCHEMA)],
+  ['winnerId', id],
+  ['time', varInt],
+];
+
+const SNAKE_SKIP = ['id', 'segments'];
+const ENTITY_SKIP = ['id', 'position'];
+const STATE_SKIP = ['snakes', 'foods', 'powerUps'];
+
+// Entities with an id and a position followed by schema fields
+function entityOf(schema: Schema): Codec {
+  return {
+    write: (w, value, ids) => {
+      ids.write(w, value.id);
+      position.write(w, value.position, ids);
+      writeFields(w, schema, value, ids, ENTITY_SKIP);
+    },
+    read: (r, ids) => {
+      const entityId = ids.read(r);
+      const entityPosition = position.read(r, ids);
+      return { id: entityId, position: entityPosition, ...readFields(r, schema, ids) };
+    },
+  };
+}
+
+const foodList = listOf(entityOf(FOOD_SCHEMA));
+const powerUpList = listOf(entityOf(POWER_UP_SCHEMA));
+
+const snakeList: Codec<any[]> = listOf({
+  write: (w, snake, ids) => {
+    ids.write(w, snake.id);
+    segmentList.write(w, snake.segments, ids);
+    writeFields(w, SNAKE_SCHEMA, snake, ids, SNAKE_SKIP);
+  },
+  read: (r, ids) => {
+    const snakeId = ids.read(r);
+    const segments = segmentList.read(r, ids);
+    return { id: snakeId, segments, ...readFields(r, SNAKE_SCHEMA, ids) };
+  },
+});
+
+const snakeDeltaList: Codec<SnakeDelta[]> = listOf({
+  write: (w, update, ids) => {
+    ids.write(w, update.id);
+    segmentList.write(w, update.prepend, ids);
+    w.writeVarUint(update.length);
+    writeFields(w, SNAKE_SCHEMA, update.fields || {}, ids);
+  },
+  read: (r, ids) => {
+    const snakeId = ids.read(r);
+    const prepend = segmentList.read(r, ids);
+    const length = r.readVarUint();
+    const fields = readFields(r, SNAKE_SCHEMA, ids);
+    return {
+      id: snakeId,
+      prepend,
+      length,
+      fields: Object.keys(fields).length > 0 ? fields : undefined,
+    };
+  },
+});
+
+const idList = listOf(id);
+
+function writeHeader(w: ByteWriter, type: number): void {
+  w.writeU8(MAGIC);
+  w.writeU8(PROTOCOL_VERSION);
+  w.writeU8(type);
+}
+
+function readHeader(r: ByteReader): number {
+  if (r.readU8() !== MAGIC) {
+    throw new ProtocolError('Not a game protocol message');
+  }
+
+  const version = r.readU8();
+  if (version !== PROTOCOL_VERSION) {
+    throw new ProtocolVersionError(PROTOCOL_VERSION, version);
+  }
+
+  return r.readU8();
+}
+
+// Input acks are part of every snapshot header, zero means no input yet
+function writeAck(w: ByteWriter, ack: InputAck | undefined): void {
+  w.writeVarUint(ack ? ack.seq : 0);
+  w.writeVarUint(ack ? ack.ticks : 0);
+}
+
+function readAck(r: ByteReader): InputAck | undefined {
+  const seq = r.readVarUint();
+  const ticks = r.readVarUint();
+  return seq > 0 ? { seq, ticks } : undefined;
+}
+
+function expectType(actual: number, expected: number[]): void {
+  if (!expected.includes(actual)) {
+    throw new ProtocolError(`Unexpected game message type ${actual}`);
+  }
+}
+
+// Server side: encodes snapshots for one connection
+export class ProtocolEncoder {
+  private ids: IdTable = new IdTable();
+
+  public encodeSnapshot(snapshot: StateSnapshot): Uint8Array {
+    const w = new ByteWriter();
+
+    if (snapshot.type === 'keyframe') {
+      // Keyframes start a fresh id table so a client can always resync from one
+      this.ids.reset();
+      writeHeader(w, MESSAGE_KEYFRAME);
+      w.writeVarUint(snapshot.seq);
+      writeAck(w, snapshot.ack);
+      writeFields(w, STATE_SCHEMA, snapshot.state, this.ids, STATE_SKIP);
+      snakeList.write(w, snapshot.state.snakes, this.ids);
+      foodList.write(w, snapshot.state.foods, this.ids);
+      powerUpList.write(w, snapshot.state.powerUps, this.ids);
+      return w.finish();
+    }
+
+    writeHeader(w, MESSAGE_DELTA);
+    w.writeVarUint(snapshot.seq);
+    w.writeVarUint(snapshot.baseSeq);
+    writeAck(w, snapshot.ack);
+    snakeList.write(w, snapshot.addedSnakes, this.ids);
+    snakeDeltaList.write(w, snapshot.updatedSnakes, this.ids);
+    idList.write(w, snapshot.removedSnakeIds, this.ids);
+    foodList.write(w, snapshot.addedFoods, this.ids);
+    w.writeVarUint(snapshot.movedFoods.length);
+    for (const moved of snapshot.movedFoods) {
+      this.ids.write(w, moved.id);
+      position.write(w, moved.position, this.ids);
+    }
+    idList.write(w, snapshot.removedFoodIds, this.ids);
+    bool.write(w, !!snapshot.powerUps, this.ids);
+    if (snapshot.powerUps) {
+      powerUpList.write(w, snapshot.powerUps, this.ids);
+    }
+    writeFields(w, STATE_SCHEMA, snapshot.fields || {}, this.ids);
+    return w.finish();
+  }
+}
+
+// Client side: decodes snapshots from one connection. Every message must be
+// decoded in order, even deltas the client ends up discarding, so the id
+// table stays in sync with the server's.
+export class ProtocolDecoder {
+  private ids: IdTable = new IdTable();
+
+  public decodeSnapshot(data: unknown): StateSnapshot {
+    const r = new ByteReader(toBytes(data));
+    const type = readHeader(r);
+    expectType(type, [MESSAGE_KEYFRAME, MESSAGE_DELTA]);
+
+    if (type === MESSAGE_KEYFRAME) {
+      this.ids.reset();
+      const seq = r.readVarUint();
+      const ack = readAck(r);
+      const fields = readFields(r, STATE_SCHEMA, this.ids);
+      const state = {
+        ...fields,
+        snakes: snakeList.read(r, this.ids),
+        foods: foodList.read(r, this.ids),
+        powerUps: powerUpList.read(r, this.ids),
+      } as GameState;
+      const keyframe: StateKeyframe = { type: 'keyframe', seq, ack, state };
+      return keyframe;
+    }
+
+    const seq = r.readVarUint();
+    const baseSeq = r.readVarUint();
+    const ack = readAck(r);
+    const addedSnakes = snakeList.read(r, this.ids);
+    const updatedSnakes = snakeDeltaList.read(r, this.ids);
+    const removedSnakeIds = idList.read(r, this.ids);
+    const addedFoods = foodList.read(r, this.ids);
+    const movedCount = r.readVarUint();
+    const movedFoods = [];
+    for (let i = 0; i < movedCount; i++) {
+      const foodId = this.ids.read(r);
+      movedFoods.push({ id: foodId, position: position.read(r, this.ids) });
+    }
+    const removedFoodIds = idList.read(r, this.ids);
+    const powerUps = bool.read(r, this.ids) ? powerUpList.read(r, this.ids) : undefined;
+    const fields = readFields(r, STATE_SCHEMA, this.ids);
+
+    const delta: StateDelta = {
+      type: 'delta',
+      seq,
+      baseSeq,
+      ack,
+      addedSnakes,
+      updatedSnakes,
+      removedSnakeIds,
+      addedFoods,
+      movedFoods,
+      removedFoodIds,
+      powerUps,
+      fields: Object.keys(fields).length > 0 ? fields : undefined,
+    };
+    return delta;
+  }
+}
+
+// Player input, the player id is implied by the connection
+export interface WireInput {
+  direction: Point;
+  seq: number;
+}
+
+export function encodeInput(input: WireInput): Uint8Array {
+  const w = new ByteWriter();
+  writeHeader(w, MESSAGE_INPUT);
+  w.writeVarUint(input.seq);
+  position.write(w, input.direction, new IdTable());
+  return w.finish();
+}
+
+export function decodeInput(data: unknown): WireInput {
+  const r = new ByteReader(toBytes(data));
+  expectType(readHeader(r), [MESSAGE_INPUT]);
+  const seq = r.readVarUint();
+  return { seq, direction: position.read(r, new IdTable()) };
+}
+
+// Leaderboards are broadcast to everyone, so they don't use the per-connection id table
+export function encodeLeaderboard(leaderboard: GameState['leaderboard']): Uint8Array {
+  const w = new ByteWriter();
+  writeHeader(w, MESSAGE_LEADERBOARD);
+  leaderboardList.write(w, leaderboard, new IdTable());
+  return w.finish();
+}
+
+export function decodeLeaderboard(data: unknown): GameState['leaderboard'] {
+  const r = new ByteReader(toBytes(data));
+  expectType(readHeader(r), [MESSAGE_LEADERBOARD]);
+  return leaderboardList.read(r, new IdTable()) as GameState['leaderboard'];
+}
@@ -0,0 +1,59 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Randomness and time for the game engine. Both are injectable so a game
+// started with the same seed, clock and inputs plays out exactly the same,
+// which is what replays, lockstep tests and bug reproductions rely on.
+
+// A function returning a float in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// Seeded PRNG (mulberry32). Small and fast, plenty for gameplay; the same
+// seed always gives the same sequence.
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A v4 uuid drawn from the given random source instead of the system one
+export function randomUuid(random: RandomSource): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < 16; i++) {
+    bytes.push(Math.floor(random() * 256));
+  }
+  return uuidv4({ random: bytes });
+}
+
+// Where the engine gets the current time (ms)
+export interface GameClock {
+  now(): number;
+}
+
+// Wall clock time, the default outside of tests and replays
+export const systemClock: GameClock = {
+  now: () => Date.now(),
+};
+
+// A clock that only moves when told to. Advance it by the same delta passed
+// to GameEngine.update to keep simulated time in step with the simulation.
+export class SimulatedClock implements GameClock {
+  private time: number;
+
+  constructor(start: number = 0) {
+    this.time = start;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public advance(ms: number): void {
+    this.time += ms;
+  }
+}
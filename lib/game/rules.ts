@@ -0,0 +1,288 @@
+// What happens when two heads meet:
+// - 'both-die': both snakes die
+// - 'longer-wins': the longer snake survives, equal lengths both die
+// - 'boosting-wins': a boosting snake beats one that isn't, otherwise the longer one wins
+export type HeadOnRule = 'both-die' | 'longer-wins' | 'boosting-wins';
+
+const HEAD_ON_RULES: HeadOnRule[] = ['both-die', 'longer-wins', 'boosting-wins'];
+
+// How boosting works:
+// - 'meter': food fills a meter, a full meter gives a fixed-length burst
+// - 'sprint': hold to sprint for as long as you like, paid for with tail
+//   segments that drop behind the snake as food
+export type BoostMode = 'meter' | 'sprint';
+
+const BOOST_MODES: BoostMode[] = ['meter', 'sprint'];
+
+// What a game is played for:
+// - 'classic': endless, eat and grow
+// - 'battle-royale': a safe zone shrinks in phases, snakes outside it lose
+//   length, and the last snake alive wins the round
+export type GameMode = 'classic' | 'battle-royale';
+
+const GAME_MODES: GameMode[] = ['classic', 'battle-royale'];
+
+// Tunable rules for a game. GameEngine takes a partial set and fills in the
+// rest from DEFAULT_RULES, so callers only spell out what they change.
+export interface GameRules {
+  gameMode: GameMode;
+  foodCount: number; // Food the map is kept stocked with, food dropped by snakes counts towards it
+  foodSpawnRate: number; // ms between food spawns while the map is short of food
+  foodLifetime: number; // ms uneaten food stays on the map, 0 forever
+  foodFieldChance: number; // Chance (0-1) a spawn is a cluster of food rather than a single item
+  specialFoodChance: number; // Chance (0-1) a spawned food is a special high-value one
+  powerUpsEnabled: boolean;
+  powerUpSpawnRate: number; // ms between power-up spawns
+  maxPowerUps: number; // Power-ups on the map at once
+  collisionDistance: number; // How close a head has to get to a body to hit it
+  borderDangerZone: number; // Snakes die this close to the edge of the map
+  boostMode: BoostMode;
+  boostDuration: number; // ms a full boost meter lasts
+  boostMultiplier: number; // Speed multiplier while boosting
+  sprintDrainRate: number; // Tail segments dropped per second while sprinting
+  spawnProtection: number; // ms a respawned snake can't be killed by other snakes
+  corpseDissolveTime: number; // ms a dead snake takes to turn into food and leave the map
+  zonePhaseDuration: number; // Battle royale: ms the safe zone holds before each shrink
+  zoneShrinkDuration: number; // Battle royale: ms each shrink takes
+  zoneDamageRate: number; // Battle royale: segments lost per second outside the safe zone
+  headOnRule: HeadOnRule;
+  selfCollision: boolean; // Classic Snake: running into your own body kills you
+}
+
+export const DEFAULT_RULES: GameRules = {
+  gameMode: 'classic',
+  foodCount: 500,
+  foodSpawnRate: 100,
+  foodLifetime: 120000,
+  foodFieldChance: 0.15,
+  specialFoodChance: 0.05,
+  powerUpsEnabled: true,
+  powerUpSpawnRate: 30000,
+  maxPowerUps: 3,
+  collisionDistance: 10,
+  borderDangerZone: 30,
+  boostMode: 'meter',
+  boostDuration: 5000,
+  boostMultiplier: 2,
+  sprintDrainRate: 8,
+  spawnProtection: 3000,
+  corpseDissolveTime: 2000,
+  zonePhaseDuration: 45000,
+  zoneShrinkDuration: 15000,
+  zoneDamageRate: 10,
+  headOnRule: 'both-die',
+  selfCollision: false,
+};
+
+// Allowed range for each numeric rule, anything outside is rejected
+const NUMERIC_RULE_LIMITS: { [K in keyof GameRules]?: [number, number] } = {
+  foodCount: [0, 10000],
+  foodSpawnRate: [1, 60000],
+  foodLifetime: [0, 3600000],
+  foodFieldChance: [0, 1],
+  specialFoodChance: [0, 1],
+  powerUpSpawnRate: [100, 600000],
+  maxPowerUps: [0, 50],
+  collisionDistance: [1, 100],
+  borderDangerZone: [0, 500],
+  boostDuration: [0, 60000],
+  boostMultiplier: [1, 5],
+  sprintDrainRate: [0, 60],
+  spawnProtection: [0, 30000],
+  corpseDissolveTime: [0, 30000],
+  zonePhaseDuration: [1000, 600000],
+  zoneShrinkDuration: [0, 600000],
+  zoneDamageRate: [0, 100],
+};
+
+// Keep a derived rule inside its allowed range
+function clampRule(key: keyof GameRules, value: number): number {
+  const [min, max] = NUMERIC_RULE_LIMITS[key] as [number, number];
+  return Math.min(max, Math.max(min, value));
+}
+
+const BOOLEAN_RULES: (keyof GameRules)[] = ['powerUpsEnabled', 'selfCollision'];
+
+// Rules that take one of a fixed set of names
+const CHOICE_RULES: { [K in keyof GameRules]?: string[] } = {
+  gameMode: GAME_MODES,
+  headOnRule: HEAD_ON_RULES,
+  boostMode: BOOST_MODES,
+};
+
+// Rules that don't make sense, with every problem found
+export class InvalidRulesError extends Error {
+  public readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid game rules: ${problems.join('; ')}`);
+    this.name = 'InvalidRulesError';
+    this.problems = problems;
+  }
+}
+
+// Check a partial rules object, e.g. one read from a config file. Unknown
+// keys, wrong types and out-of-range numbers throw an InvalidRulesError.
+export function validateRules(input: unknown): Partial<GameRules> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new InvalidRulesError(['rules must be an object']);
+  }
+
+  const problems: string[] = [];
+  const rules = input as { [key: string]: unknown };
+
+  for (const key of Object.keys(rules)) {
+    const value = rules[key];
+    if (value === undefined) continue;
+
+    // Own keys only, so "constructor" or "__proto__" are unknown rules rather than crashes
+    if (!Object.hasOwn(DEFAULT_RULES, key)) {
+      problems.push(`unknown rule "${key}"`);
+    } else if (Object.hasOwn(CHOICE_RULES, key)) {
+      const choices = CHOICE_RULES[key as keyof GameRules] as string[];
+      if (!choices.includes(value as string)) {
+        problems.push(`${key} must be one of ${choices.join(', ')}`);
+      }
+    } else if (BOOLEAN_RULES.includes(key as keyof GameRules)) {
+      if (typeof value !== 'boolean') {
+        problems.push(`${key} must be true or false`);
+      }
+    } else {
+      const [min, max] = NUMERIC_RULE_LIMITS[key as keyof GameRules] as [number, number];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        problems.push(`${key} must be a number between ${min} and ${max}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new InvalidRulesError(problems);
+  }
+  return rules as Partial<GameRules>;
+}
+
+// Fill in missing rules with the defaults
+export function resolveRules(rules: Partial<GameRules> = {}): GameRules {
+  return { ...DEFAULT_RULES, ...rules };
+}
+
+// Named rule sets for common kinds of match
+export type RulePreset = 'casual' | 'competitive' | 'chaos';
+
+export const RULE_PRESETS: Record<RulePreset, Partial<GameRules>> = {
+  // Plenty of food, forgiving collisions and long boosts
+  casual: {
+    foodCount: 700,
+    foodSpawnRate: 70,
+    collisionDistance: 8,
+    borderDangerZone: 20,
+    boostDuration: 6000,
+    headOnRule: 'longer-wins',
+  },
+  // Scarce food, no power-ups, skill decides
+  competitive: {
+    foodCount: 400,
+    specialFoodChance: 0.03,
+    powerUpsEnabled: false,
+    boostMode: 'sprint',
+    headOnRule: 'both-die',
+  },
+  // Food and power-ups everywhere, boosting wins fights
+  chaos: {
+    foodCount: 1000,
+    foodSpawnRate: 40,
+    specialFoodChance: 0.15,
+    foodFieldChance: 0.4,
+    powerUpSpawnRate: 5000,
+    maxPowerUps: 10,
+    boostMultiplier: 3,
+    headOnRule: 'boosting-wins',
+  },
+};
+
+export function isRulePreset(name: unknown): name is RulePreset {
+  return typeof name === 'string' && Object.hasOwn(RULE_PRESETS, name);
+}
+
+// Settings a player picks when creating a private room
+export type MapSize = 'small' | 'medium' | 'large';
+export type FoodDensity = 'low' | 'normal' | 'high';
+
+export interface RoomSettings {
+  mapSize: MapSize;
+  foodDensity: FoodDensity;
+  powerUps: boolean;
+  selfCollision: boolean;
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  mapSize: 'medium',
+  foodDensity: 'normal',
+  powerUps: true,
+  selfCollision: false,
+};
+
+// Side length of the square world for each map size
+export const MAP_SIZES: Record<MapSize, number> = {
+  small: 2500,
+  medium: 4000,
+  large: 6000,
+};
+
+// Food relative to the default rules on a medium map
+export const FOOD_DENSITIES: Record<FoodDensity, number> = {
+  low: 0.5,
+  normal: 1,
+  high: 2,
+};
+
+// Clean up settings sent by a client, anything unknown falls back to the default
+export function sanitizeRoomSettings(settings: Partial<RoomSettings> | undefined): RoomSettings {
+  const input = settings || {};
+
+  return {
+    // Own keys only, names like "constructor" must not slip through
+    mapSize: typeof input.mapSize === 'string' && Object.hasOwn(MAP_SIZES, input.mapSize)
+      ? input.mapSize
+      : DEFAULT_ROOM_SETTINGS.mapSize,
+    foodDensity: typeof input.foodDensity === 'string' && Object.hasOwn(FOOD_DENSITIES, input.foodDensity)
+      ? input.foodDensity
+      : DEFAULT_ROOM_SETTINGS.foodDensity,
+    powerUps: typeof input.powerUps === 'boolean' ? input.powerUps : DEFAULT_ROOM_SETTINGS.powerUps,
+    selfCollision: typeof input.selfCollision === 'boolean'
+      ? input.selfCollision
+      : DEFAULT_ROOM_SETTINGS.selfCollision,
+  };
+}
+
+// World size and engine rules for a room, on top of the server's base rules.
+// Food scales with the map area so a bigger map doesn't feel emptier at the
+// same density.
+export function getRoomConfig(
+  settings: RoomSettings,
+  base: GameRules = DEFAULT_RULES
+): { size: number, rules: GameRules } {
+  const size = MAP_SIZES[settings.mapSize];
+  const area = (size * size) / (MAP_SIZES.medium * MAP_SIZES.medium);
+  const food = FOOD_DENSITIES[settings.foodDensity] * area;
+
+  return {
+    size,
+    rules: {
+      ...base,
+      foodCount: clampRule('foodCount', Math.round(base.foodCount * food)),
+      foodSpawnRate: clampRule('foodSpawnRate', base.foodSpawnRate / food),
+      powerUpsEnabled: settings.powerUps,
+      selfCollision: settings.selfCollision,
+    },
+  };
+}
+
+// Room settings that keep the base rules as they are, used for public rooms
+export function getDefaultRoomSettings(base: GameRules = DEFAULT_RULES): RoomSettings {
+  return {
+    ...DEFAULT_ROOM_SETTINGS,
+    powerUps: base.powerUpsEnabled,
+    selfCollision: base.selfCollision,
+  };
+}
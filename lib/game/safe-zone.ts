@@ -0,0 +1,115 @@
+import { Point, SafeZone } from './models';
+import { GameRules } from './rules';
+import { RandomSource } from './random';
+
+// Battle royale safe zone. A round starts with a circle covering the whole
+// map. Each phase the zone holds for zonePhaseDuration, then closes in on a
+// smaller circle somewhere inside it over zoneShrinkDuration, until it has
+// closed completely. The engine does the damage; this only moves the circle.
+
+const ZONE_SHRINK_FACTOR = 0.6; // Each circle's radius is this fraction of the one before
+const MIN_ZONE_RADIUS = 150; // Circles smaller than this close completely instead
+
+interface Circle {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export function isInSafeZone(zone: SafeZone, point: Point): boolean {
+  const dx = point.x - zone.x;
+  const dy = point.y - zone.y;
+  return dx * dx + dy * dy <= zone.radius * zone.radius;
+}
+
+export class SafeZoneController {
+  private width: number;
+  private height: number;
+  private rules: GameRules;
+  private random: RandomSource;
+  private zone: SafeZone;
+  private from: Circle; // Where the current shrink started
+
+  constructor(width: number, height: number, rules: GameRules, random: RandomSource, now: number) {
+    this.width = width;
+    this.height = height;
+    this.rules = rules;
+    this.random = random;
+    this.from = this.getFullMap();
+    this.zone = this.planPhase(this.from, 1, now);
+  }
+
+  // Start a new round with the zone covering the whole map again
+  public reset(now: number): SafeZone {
+    this.from = this.getFullMap();
+    this.zone = this.planPhase(this.from, 1, now);
+    return this.zone;
+  }
+
+  public getZone(): SafeZone {
+    return this.zone;
+  }
+
+  // Move the zone on to `now`. Returns the same object while nothing changes.
+  public update(now: number): SafeZone {
+    const zone = this.zone;
+    if (now < zone.shrinkStartsAt) return zone;
+
+    if (now >= zone.shrinkEndsAt) {
+      const reached = { x: zone.nextX, y: zone.nextY, radius: zone.nextRadius };
+      if (reached.radius > 0) {
+        this.from = reached;
+        this.zone = this.planPhase(reached, zone.phase + 1, now);
+      } else if (zone.radius > 0) {
+        // Fully closed, it stays that way until the round ends
+        this.zone = { ...zone, ...reached };
+      }
+      return this.zone;
+    }
+
+    const t = (now - zone.shrinkStartsAt) / (zone.shrinkEndsAt - zone.shrinkStartsAt);
+    this.zone = {
+      ...zone,
+      x: this.from.x + (zone.nextX - this.from.x) * t,
+      y: this.from.y + (zone.nextY - this.from.y) * t,
+      radius: this.from.radius + (zone.nextRadius - this.from.radius) * t,
+    };
+    return this.zone;
+  }
+
+  // A circle around the whole map
+  private getFullMap(): Circle {
+    return {
+      x: this.width / 2,
+      y: this.height / 2,
+      radius: Math.sqrt(this.width * this.width + this.height * this.height) / 2,
+    };
+  }
+
+  // Hold at `current`, then shrink to a random smaller circle inside it
+  private planPhase(current: Circle, phase: number, now: number): SafeZone {
+    const nextRadius = current.radius * ZONE_SHRINK_FACTOR >= MIN_ZONE_RADIUS
+      ? current.radius * ZONE_SHRINK_FACTOR
+      : 0;
+
+    const angle = this.random() * Math.PI * 2;
+    const offset = this.random() * (current.radius - nextRadius);
+
+    // Keep the next circle on the map where it fits
+    const clamp = (value: number, size: number) =>
+      Math.min(Math.max(size - nextRadius, size / 2), Math.max(Math.min(nextRadius, size / 2), value));
+
+    const shrinkStartsAt = now + this.rules.zonePhaseDuration;
+    return {
+      x: current.x,
+      y: current.y,
+      radius: current.radius,
+      nextX: clamp(current.x + Math.cos(angle) * offset, this.width),
+      nextY: clamp(current.y + Math.sin(angle) * offset, this.height),
+      nextRadius,
+      phase,
+      shrinkStartsAt,
+      shrinkEndsAt: shrinkStartsAt + this.rules.zoneShrinkDuration,
+    };
+  }
+}
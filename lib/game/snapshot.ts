@@ -0,0 +1,261 @@
+import { GameState, Snake, Food, Point, PowerUp } from './models';
+
+// Snapshot types sent from the server to clients. A keyframe carries the full
+// (culled) state; a delta carries only what changed since the snapshot with
+// sequence number `baseSeq`. Clients that miss a delta request a new keyframe.
+
+export interface SnakeDelta {
+  id: string;
+  prepend: Point[]; // New head segments since the base snapshot, head first
+  length: number; // Segment count after applying the delta
+  fields?: { [key: string]: any }; // Changed properties, null means removed
+}
+
+export interface FoodUpdate {
+  id: string;
+  position: Point;
+}
+
+// The last input the server applied for this client, and how many ticks it
+// has simulated since. Clients replay anything newer on top of the snapshot.
+export interface InputAck {
+  seq: number;
+  ticks: number;
+}
+
+export interface StateKeyframe {
+  type: 'keyframe';
+  seq: number;
+  ack?: InputAck;
+  state: GameState;
+}
+
+export interface StateDelta {
+  type: 'delta';
+  seq: number;
+  baseSeq: number;
+  ack?: InputAck;
+  addedSnakes: Snake[];
+  updatedSnakes: SnakeDelta[];
+  removedSnakeIds: string[];
+  addedFoods: Food[];
+  movedFoods: FoodUpdate[];
+  removedFoodIds: string[];
+  powerUps?: PowerUp[]; // Full list, only when something changed
+  fields?: { [key: string]: any }; // Other changed top-level state fields
+}
+
+export type StateSnapshot = StateKeyframe | StateDelta;
+
+// How far into the new body we look for the old head before giving up and
+// sending the whole snake
+const MAX_PREPEND = 64;
+
+// Keys handled explicitly, everything else on GameState is diffed generically
+const STATE_COLLECTION_KEYS = ['snakes', 'foods', 'powerUps'];
+
+// Copy a state so later engine mutations don't leak into it. Points are
+// treated as immutable by the engine, so segment arrays are copied shallowly.
+export function cloneState(state: GameState): GameState {
+  return {
+    ...state,
+    snakes: state.snakes.map(snake => ({
+      ...snake,
+      segments: snake.segments.slice(),
+      direction: { ...snake.direction },
+      activePowerUps: snake.activePowerUps.map(p => ({ ...p })),
+    })),
+    foods: state.foods.map(food => ({ ...food })),
+    powerUps: state.powerUps.map(powerUp => ({ ...powerUp })),
+    leaderboard: state.leaderboard.map(entry => ({ ...entry })),
+  };
+}
+
+function samePoint(a: Point | undefined, b: Point | undefined): boolean {
+  return !!a && !!b && a.x === b.x && a.y === b.y;
+}
+
+function sameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Diff two plain objects, skipping some keys. Removed keys are reported as null.
+function diffFields(prev: any, next: any, skip: string[]): { [key: string]: any } | undefined {
+  let changes: { [key: string]: any } | undefined;
+
+  for (const key of Object.keys(next)) {
+    if (skip.includes(key)) continue;
+    if (!sameValue(prev[key], next[key])) {
+      changes = changes || {};
+      changes[key] = next[key] === undefined ? null : next[key];
+    }
+  }
+
+  for (const key of Object.keys(prev)) {
+    if (skip.includes(key) || key in next || prev[key] === undefined) continue;
+    changes = changes || {};
+    changes[key] = null;
+  }
+
+  return changes;
+}
+
+// Apply changed fields produced by diffFields
+function applyFields<T>(target: T, fields?: { [key: string]: any }): T {
+  if (!fields) return target;
+
+  const result: any = { ...target };
+  for (const key of Object.keys(fields)) {
+    if (fields[key] === null) {
+      delete result[key];
+    } else {
+      result[key] = fields[key];
+    }
+  }
+  return result;
+}
+
+// Rebuild a segment list from the previous one plus new heads and a length
+function applySegments(prev: Point[], prepend: Point[], length: number): Point[] {
+  const segments = prepend.concat(prev).slice(0, length);
+  const tail = segments[segments.length - 1];
+
+  // Growth copies the tail, so pad with it
+  while (tail && segments.length < length) {
+    segments.push({ ...tail });
+  }
+  return segments;
+}
+
+// Describe how a snake's body changed, or null if it has to be sent in full
+function diffSegments(prev: Point[], next: Point[]): { prepend: Point[], length: number } | null {
+  if (prev.length === 0 || next.length === 0) return null;
+
+  // Find where the old head ended up in the new body
+  const limit = Math.min(MAX_PREPEND, next.length - 1);
+  let offset = -1;
+  for (let i = 0; i <= limit; i++) {
+    if (samePoint(next[i], prev[0])) {
+      offset = i;
+      break;
+    }
+  }
+  if (offset === -1) return null;
+
+  // Verify the reconstruction matches exactly so clients never drift
+  const tail = prev[prev.length - 1];
+  for (let i = offset; i < next.length; i++) {
+    const expected = i - offset < prev.length ? prev[i - offset] : tail;
+    if (!samePoint(expected, next[i])) return null;
+  }
+
+  return { prepend: next.slice(0, offset), length: next.length };
+}
+
+// Build a full keyframe
+export function createKeyframe(state: GameState, seq: number, ack?: InputAck): StateKeyframe {
+  return { type: 'keyframe', seq, ack, state };
+}
+
+// Build a delta that turns `prev` into `next`
+export function createDelta(prev: GameState, next: GameState, seq: number, baseSeq: number, ack?: InputAck): StateDelta {
+  const delta: StateDelta = {
+    type: 'delta',
+    seq,
+    baseSeq,
+    ack,
+    addedSnakes: [],
+    updatedSnakes: [],
+    removedSnakeIds: [],
+    addedFoods: [],
+    movedFoods: [],
+    removedFoodIds: [],
+  };
+
+  // Snakes
+  const prevSnakes = new Map(prev.snakes.map(snake => [snake.id, snake]));
+  for (const snake of next.snakes) {
+    const before = prevSnakes.get(snake.id);
+    prevSnakes.delete(snake.id);
+
+    if (!before) {
+      delta.addedSnakes.push(snake);
+      continue;
+    }
+
+    // Bodies that can't be diffed (teleports, respawns) are resent in full
+    const body = diffSegments(before.segments, snake.segments) ||
+      { prepend: snake.segments, length: snake.segments.length };
+
+    const fields = diffFields(before, snake, ['id', 'segments']);
+    if (body.prepend.length > 0 || body.length !== before.segments.length || fields) {
+      delta.updatedSnakes.push({ id: snake.id, prepend: body.prepend, length: body.length, fields });
+    }
+  }
+  prevSnakes.forEach((_, id) => delta.removedSnakeIds.push(id));
+
+  // Food
+  const prevFoods = new Map(prev.foods.map(food => [food.id, food]));
+  for (const food of next.foods) {
+    const before = prevFoods.get(food.id);
+    prevFoods.delete(food.id);
+
+    if (!before) {
+      delta.addedFoods.push(food);
+    } else if (!samePoint(before.position, food.position)) {
+      delta.movedFoods.push({ id: food.id, position: food.position });
+    }
+  }
+  prevFoods.forEach((_, id) => delta.removedFoodIds.push(id));
+
+  // Power-ups are few, send the whole list when anything changed
+  if (!sameValue(prev.powerUps, next.powerUps)) {
+    delta.powerUps = next.powerUps;
+  }
+
+  delta.fields = diffFields(prev, next, STATE_COLLECTION_KEYS);
+
+  return delta;
+}
+
+// Apply a delta to the state it was based on, returning a new state
+export function applyDelta(state: GameState, delta: StateDelta): GameState {
+  const removedSnakes = new Set(delta.removedSnakeIds);
+  const updates = new Map(delta.updatedSnakes.map(update => [update.id, update]));
+
+  const snakes: Snake[] = [];
+  for (const snake of state.snakes) {
+    if (removedSnakes.has(snake.id)) continue;
+
+    const update = updates.get(snake.id);
+    if (!update) {
+      snakes.push(snake);
+      continue;
+    }
+
+    const updated = applyFields(snake, update.fields);
+    updated.segments = applySegments(snake.segments, update.prepend, update.length);
+    snakes.push(updated);
+  }
+  snakes.push(...delta.addedSnakes);
+
+  const removedFoods = new Set(delta.removedFoodIds);
+  const movedFoods = new Map(delta.movedFoods.map(update => [update.id, update.position]));
+  const foods: Food[] = [];
+  for (const food of state.foods) {
+    if (removedFoods.has(food.id)) continue;
+
+    const position = movedFoods.get(food.id);
+    foods.push(position ? { ...food, position } : food);
+  }
+  foods.push(...delta.addedFoods);
+
+  return {
+    ...applyFields(state, delta.fields),
+    snakes,
+    foods,
+    powerUps: delta.powerUps || state.powerUps,
+  };
+}
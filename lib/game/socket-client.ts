@@ -1,26 +1,59 @@
 "use client";
 
 import { io, Socket } from "socket.io-client";
-import { GameState, PlayerInput } from "./models";
+import { GameState, PlayerInput, MinimapSummary, ViewportSize, Point } from "./models";
+import { StateSnapshot, InputAck, applyDelta } from "./snapshot";
+import { GameRules, RoomSettings } from "./rules";
+import { SessionStats } from "./engine";
+import {
+  PROTOCOL_VERSION,
+  WireFormat,
+  ProtocolDecoder,
+  ProtocolError,
+  ProtocolVersionError,
+  encodeInput,
+  decodeLeaderboard,
+} from "./protocol";
 
 // Define additional event types
 export interface PlayerJoinedEvent {
   playerId: string;
+  roomCode: string;
+  isPrivate: boolean;
+  settings: RoomSettings;
+  rules: GameRules; // What the room's engine runs with, prediction has to match
+}
+
+export interface JoinErrorEvent {
+  message: string;
+  roomCode?: string; // The room we asked to join, filled in by the client
+}
+
+export interface RespawnRefusedEvent {
+  message: string; // Why, e.g. a battle royale round is under way
 }
 
 export interface PlayerDeathEvent {
   cause: string;
   position: number;
   score: number;
-  playTime: number;
+  playTime: number; // ms this life lasted
+  session?: SessionStats; // Totals over every life in this room, this one included
 }
 
 export interface PlayerKillEvent {
-  killerId?: string;
-  killerName?: string;
+  killerId: string;
+  killerName: string;
   victimId: string;
   victimName: string;
-  score: number;
+  score: number; // Points the killer gained
+}
+
+export interface HeadOnCollisionEvent {
+  playerId: string;
+  otherId: string;
+  winnerId?: string; // Missing when both snakes died
+  at: Point;
 }
 
 export interface ChatMessageEvent {
@@ -30,6 +63,20 @@ export interface ChatMessageEvent {
   timestamp: number;
 }
 
+export interface ProtocolErrorEvent {
+  expected: number;
+  received: number | null;
+  message: string;
+}
+
+// Binary by default; set NEXT_PUBLIC_GAME_WIRE_FORMAT=json or
+// localStorage.wireFormat = "json" to get readable payloads for debugging
+function getWireFormat(): WireFormat {
+  const override = typeof window !== "undefined" ? window.localStorage.getItem("wireFormat") : null;
+  const format = override || process.env.NEXT_PUBLIC_GAME_WIRE_FORMAT;
+  return format === "json" ? "json" : "binary";
+}
+
 export interface FinalStatsEvent {
   score: number;
   kills: number;
@@ -40,16 +87,34 @@ export interface FinalStatsEvent {
 class GameSocketClient {
   private socket: Socket | null = null;
   private playerId: string | null = null;
+  private roomCode: string | null = null;
+  private requestedRoomCode: string | null = null; // Room asked for by the last join
+  private rules: GameRules | null = null;
   private connected: boolean = false;
   private gameStateListeners: ((state: GameState) => void)[] = [];
   private playerJoinedListeners: ((data: PlayerJoinedEvent) => void)[] = [];
+  private joinErrorListeners: ((data: JoinErrorEvent) => void)[] = [];
   private connectionListeners: ((connected: boolean) => void)[] = [];
   private connectionErrorListeners: ((error: Error) => void)[] = [];
   private deathListeners: ((data: PlayerDeathEvent) => void)[] = [];
+  private respawnListeners: (() => void)[] = [];
+  private respawnRefusedListeners: ((data: RespawnRefusedEvent) => void)[] = [];
   private killListeners: ((data: PlayerKillEvent) => void)[] = [];
+  private headOnListeners: ((data: HeadOnCollisionEvent) => void)[] = [];
   private leaderboardListeners: ((data: any[]) => void)[] = [];
   private chatListeners: ((data: ChatMessageEvent) => void)[] = [];
   private finalStatsListeners: ((data: FinalStatsEvent) => void)[] = [];
+  private minimapListeners: ((summary: MinimapSummary) => void)[] = [];
+  private viewport: ViewportSize | null = null;
+  // State rebuilt from keyframes and deltas
+  private state: GameState | null = null;
+  private stateSeq: number = -1;
+  private awaitingKeyframe: boolean = false;
+  private wireFormat: WireFormat = "binary";
+  private decoder: ProtocolDecoder = new ProtocolDecoder();
+  // Input sequence numbers for client-side prediction
+  private inputSeq: number = 0;
+  private inputAck: InputAck | null = null;
   
   // Connect to the WebSocket server
   public connect(): void {
@@ -64,7 +129,11 @@ class GameSocketClient {
     try {
       console.log(`Connecting to game server at: ${socketUrl}`);
       
+      this.wireFormat = getWireFormat();
+      this.decoder = new ProtocolDecoder();
+      
       this.socket = io(socketUrl, {
+        auth: { protocolVersion: PROTOCOL_VERSION, wireFormat: this.wireFormat },
         transports: ["websocket", "polling"], // Add polling as fallback
         autoConnect: true,
         reconnectionAttempts: 5, // Increase reconnection attempts
@@ -90,6 +159,12 @@ class GameSocketClient {
     this.socket.on("connect", () => {
       console.log("Connected to game server");
       this.connected = true;
+      
+      // Tell the server how much of the world we can see so it can cull the state
+      if (this.viewport) {
+        this.socket?.emit("setViewport", this.viewport);
+      }
+      
       this.notifyConnectionListeners();
     });
     
@@ -97,6 +172,7 @@ class GameSocketClient {
     this.socket.on("disconnect", () => {
       console.log("Disconnected from game server");
       this.connected = false;
+      this.resetSnapshotState();
       this.notifyConnectionListeners();
     });
     
@@ -112,12 +188,46 @@ class GameSocketClient {
     this.socket.on("playerJoined", (data: PlayerJoinedEvent) => {
       console.log("Joined game with ID:", data.playerId);
       this.playerId = data.playerId;
+      this.roomCode = data.roomCode;
+      this.rules = data.rules;
       this.notifyPlayerJoinedListeners(data);
     });
     
-    // Handle game state updates
-    this.socket.on("gameState", (state: GameState) => {
-      this.notifyGameStateListeners(state);
+    // The requested room doesn't exist or is full
+    this.socket.on("joinError", (data: JoinErrorEvent) => {
+      console.error("Could not join game:", data.message);
+      
+      // Don't keep trying a room that's gone, e.g. on the next reconnect
+      const roomCode = this.requestedRoomCode;
+      this.requestedRoomCode = null;
+      if (roomCode && this.roomCode === roomCode) {
+        this.roomCode = null;
+      }
+      
+      this.notifyJoinErrorListeners({ ...data, roomCode: roomCode || undefined });
+    });
+    
+    // Handle game state snapshots (keyframes and deltas)
+    this.socket.on("gameState", (data: StateSnapshot | ArrayBuffer) => {
+      try {
+        const snapshot = this.wireFormat === "binary"
+          ? this.decoder.decodeSnapshot(data)
+          : data as StateSnapshot;
+        this.handleSnapshot(snapshot);
+      } catch (error) {
+        this.handleProtocolError(error);
+      }
+    });
+    
+    // The server refused our protocol version
+    this.socket.on("protocolError", (data: ProtocolErrorEvent) => {
+      console.error("Game server rejected client:", data.message);
+      this.handleProtocolError(new ProtocolVersionError(data.expected, PROTOCOL_VERSION));
+    });
+    
+    // Handle low-frequency minimap summaries
+    this.socket.on("minimapUpdate", (summary: MinimapSummary) => {
+      this.notifyMinimapListeners(summary);
     });
     
     // Handle player death event
@@ -126,15 +236,35 @@ class GameSocketClient {
       this.notifyDeathListeners(data);
     });
     
+    // Handle the server's answer to a respawn request
+    this.socket.on("respawned", () => {
+      this.notifyRespawnListeners();
+    });
+    
+    this.socket.on("respawnRefused", (data: RespawnRefusedEvent) => {
+      console.log("Respawn refused:", data);
+      this.notifyRespawnRefusedListeners(data);
+    });
+    
     // Handle player kill event
     this.socket.on("playerKill", (data: PlayerKillEvent) => {
       console.log("Player kill event received:", data);
       this.notifyKillListeners(data);
     });
     
+    // Handle head-on collisions in the room
+    this.socket.on("headOnCollision", (data: HeadOnCollisionEvent) => {
+      this.notifyHeadOnListeners(data);
+    });
+    
     // Handle leaderboard updates
-    this.socket.on("leaderboardUpdate", (leaderboard: any[]) => {
-      this.notifyLeaderboardListeners(leaderboard);
+    this.socket.on("leaderboardUpdate", (data: any[] | ArrayBuffer) => {
+      try {
+        const leaderboard = this.wireFormat === "binary" ? decodeLeaderboard(data) : data as any[];
+        this.notifyLeaderboardListeners(leaderboard);
+      } catch (error) {
+        this.handleProtocolError(error);
+      }
     });
     
     // Handle chat messages
@@ -150,28 +280,117 @@ class GameSocketClient {
     });
   }
   
-  // Join the game
-  public joinGame(playerName: string): void {
+  // Rebuild the full state from a snapshot and notify listeners
+  private handleSnapshot(snapshot: StateSnapshot): void {
+    if (snapshot.type === "keyframe") {
+      this.state = snapshot.state;
+      this.stateSeq = snapshot.seq;
+      this.inputAck = snapshot.ack || null;
+      this.awaitingKeyframe = false;
+      this.notifyGameStateListeners(this.state);
+      return;
+    }
+    
+    // A delta only applies on top of the exact snapshot it was built from
+    if (!this.state || snapshot.baseSeq !== this.stateSeq) {
+      this.requestKeyframe();
+      return;
+    }
+    
+    this.state = applyDelta(this.state, snapshot);
+    this.stateSeq = snapshot.seq;
+    this.inputAck = snapshot.ack || null;
+    this.notifyGameStateListeners(this.state);
+  }
+  
+  // Undecodable data: a version mismatch is fatal, anything else just forces a resync
+  private handleProtocolError(error: unknown): void {
+    if (error instanceof ProtocolVersionError) {
+      console.error(error.message);
+      this.notifyConnectionErrorListeners(error);
+      this.disconnect();
+      return;
+    }
+    
+    if (error instanceof ProtocolError) {
+      console.error("Malformed game message:", error);
+      this.requestKeyframe();
+      return;
+    }
+    
+    throw error;
+  }
+  
+  // Ask the server for a full keyframe after missing a delta
+  private requestKeyframe(): void {
+    if (this.awaitingKeyframe || !this.socket) return;
+    
+    console.warn(`Missed game state delta (have ${this.stateSeq}), requesting keyframe`);
+    this.awaitingKeyframe = true;
+    this.socket.emit("requestKeyframe");
+  }
+  
+  // Forget the reconstructed state, the next keyframe starts over
+  private resetSnapshotState(): void {
+    this.state = null;
+    this.stateSeq = -1;
+    this.inputAck = null;
+    this.awaitingKeyframe = false;
+  }
+  
+  // Join the game, in a specific room if a code is given or wherever matchmaking puts us
+  public joinGame(playerName: string, roomCode?: string): void {
     if (!this.socket || !this.connected) {
       console.error("Not connected to server");
       return;
     }
     
-    this.socket.emit("joinGame", playerName);
+    this.requestedRoomCode = roomCode || null;
+    this.socket.emit("joinGame", playerName, roomCode);
   }
   
-  // Send player input to the server
-  public sendInput(direction: { x: number, y: number }): void {
-    if (!this.socket || !this.connected || !this.playerId) {
+  // Create a private room and join it, the invite code arrives with playerJoined
+  public createRoom(playerName: string, settings: RoomSettings): void {
+    if (!this.socket || !this.connected) {
+      console.error("Not connected to server");
       return;
     }
     
+    this.requestedRoomCode = null;
+    this.socket.emit("createRoom", playerName, settings);
+  }
+  
+  // Send player input to the server, returns its sequence number so the
+  // caller can predict it locally
+  public sendInput(direction: { x: number, y: number }): number | null {
+    if (!this.socket || !this.connected || !this.playerId) {
+      return null;
+    }
+    
+    const seq = ++this.inputSeq;
+    
+    if (this.wireFormat === "binary") {
+      this.socket.emit("playerInput", encodeInput({ direction, seq }));
+      return seq;
+    }
+    
     const input: PlayerInput = {
       id: this.playerId,
       direction,
+      seq,
     };
     
     this.socket.emit("playerInput", input);
+    return seq;
+  }
+  
+  // Report the screen size so the server only sends entities we can see
+  public setViewport(viewport: ViewportSize): void {
+    this.viewport = viewport;
+    
+    if (this.socket && this.connected) {
+      this.socket.emit("setViewport", viewport);
+    }
   }
   
   // Change player name
@@ -192,6 +411,24 @@ class GameSocketClient {
     this.socket.emit("activateBoost");
   }
   
+  // Come back after dying, keeping our player id and session totals
+  public respawn(): void {
+    if (!this.socket || !this.connected || !this.playerId) {
+      return;
+    }
+    
+    this.socket.emit("respawn");
+  }
+  
+  // Stop boosting, ends a sprint
+  public stopBoost(): void {
+    if (!this.socket || !this.connected || !this.playerId) {
+      return;
+    }
+    
+    this.socket.emit("stopBoost");
+  }
+  
   // Send chat message
   public sendChatMessage(message: string): void {
     if (!this.socket || !this.connected || !this.playerId) {
@@ -208,7 +445,9 @@ class GameSocketClient {
     this.socket.disconnect();
     this.socket = null;
     this.playerId = null;
+    this.roomCode = null;
     this.connected = false;
+    this.resetSnapshotState();
   }
   
   // Add listener for game state updates
@@ -231,6 +470,16 @@ class GameSocketClient {
     this.playerJoinedListeners = this.playerJoinedListeners.filter(l => l !== listener);
   }
   
+  // Add listener for failed joins
+  public addJoinErrorListener(listener: (data: JoinErrorEvent) => void): void {
+    this.joinErrorListeners.push(listener);
+  }
+  
+  // Remove listener for failed joins
+  public removeJoinErrorListener(listener: (data: JoinErrorEvent) => void): void {
+    this.joinErrorListeners = this.joinErrorListeners.filter(l => l !== listener);
+  }
+  
   // Add listener for connection status changes
   public addConnectionListener(listener: (connected: boolean) => void): void {
     this.connectionListeners.push(listener);
@@ -261,6 +510,36 @@ class GameSocketClient {
     this.killListeners = this.killListeners.filter(l => l !== listener);
   }
   
+  // Add listener for successful respawns
+  public addRespawnListener(listener: () => void): void {
+    this.respawnListeners.push(listener);
+  }
+  
+  // Remove listener for successful respawns
+  public removeRespawnListener(listener: () => void): void {
+    this.respawnListeners = this.respawnListeners.filter(l => l !== listener);
+  }
+  
+  // Add listener for refused respawns and mid-round joins
+  public addRespawnRefusedListener(listener: (data: RespawnRefusedEvent) => void): void {
+    this.respawnRefusedListeners.push(listener);
+  }
+  
+  // Remove listener for refused respawns and mid-round joins
+  public removeRespawnRefusedListener(listener: (data: RespawnRefusedEvent) => void): void {
+    this.respawnRefusedListeners = this.respawnRefusedListeners.filter(l => l !== listener);
+  }
+  
+  // Add listener for head-on collisions
+  public addHeadOnListener(listener: (data: HeadOnCollisionEvent) => void): void {
+    this.headOnListeners.push(listener);
+  }
+  
+  // Remove listener for head-on collisions
+  public removeHeadOnListener(listener: (data: HeadOnCollisionEvent) => void): void {
+    this.headOnListeners = this.headOnListeners.filter(l => l !== listener);
+  }
+  
   // Add listener for leaderboard updates
   public addLeaderboardListener(listener: (leaderboard: any[]) => void): void {
     this.leaderboardListeners.push(listener);
@@ -291,6 +570,16 @@ class GameSocketClient {
     this.finalStatsListeners = this.finalStatsListeners.filter(l => l !== listener);
   }
   
+  // Add listener for minimap summaries
+  public addMinimapListener(listener: (summary: MinimapSummary) => void): void {
+    this.minimapListeners.push(listener);
+  }
+  
+  // Remove listener for minimap summaries
+  public removeMinimapListener(listener: (summary: MinimapSummary) => void): void {
+    this.minimapListeners = this.minimapListeners.filter(l => l !== listener);
+  }
+  
   // Add listener for connection errors
   public addConnectionErrorListener(listener: (error: Error) => void): void {
     this.connectionErrorListeners.push(listener);
@@ -311,6 +600,11 @@ class GameSocketClient {
     this.playerJoinedListeners.forEach(listener => listener(data));
   }
   
+  // Notify all join error listeners
+  private notifyJoinErrorListeners(data: JoinErrorEvent): void {
+    this.joinErrorListeners.forEach(listener => listener(data));
+  }
+  
   // Notify all connection listeners
   private notifyConnectionListeners(): void {
     this.connectionListeners.forEach(listener => listener(this.connected));
@@ -326,6 +620,21 @@ class GameSocketClient {
     this.killListeners.forEach(listener => listener(data));
   }
   
+  // Notify all respawn listeners
+  private notifyRespawnListeners(): void {
+    this.respawnListeners.forEach(listener => listener());
+  }
+  
+  // Notify all respawn refused listeners
+  private notifyRespawnRefusedListeners(data: RespawnRefusedEvent): void {
+    this.respawnRefusedListeners.forEach(listener => listener(data));
+  }
+  
+  // Notify all head-on collision listeners
+  private notifyHeadOnListeners(data: HeadOnCollisionEvent): void {
+    this.headOnListeners.forEach(listener => listener(data));
+  }
+  
   // Notify all leaderboard listeners
   private notifyLeaderboardListeners(leaderboard: any[]): void {
     this.leaderboardListeners.forEach(listener => listener(leaderboard));
@@ -341,6 +650,11 @@ class GameSocketClient {
     this.finalStatsListeners.forEach(listener => listener(data));
   }
   
+  // Notify all minimap listeners
+  private notifyMinimapListeners(summary: MinimapSummary): void {
+    this.minimapListeners.forEach(listener => listener(summary));
+  }
+  
   // Notify all connection error listeners
   private notifyConnectionErrorListeners(error: Error): void {
     this.connectionErrorListeners.forEach(listener => listener(error));
@@ -351,6 +665,21 @@ class GameSocketClient {
     return this.playerId;
   }
   
+  // Code of the room we're playing in
+  public getRoomCode(): string | null {
+    return this.roomCode;
+  }
+  
+  // Rules of the room we're playing in
+  public getRules(): GameRules | null {
+    return this.rules;
+  }
+  
+  // The last input the server acknowledged in the current state
+  public getInputAck(): InputAck | null {
+    return this.inputAck;
+  }
+  
   // Check if connected to the server
   public isConnected(): boolean {
     return this.connected;
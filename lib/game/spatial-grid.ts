@@ -0,0 +1,111 @@
+import { Point } from './models';
+
+// Uniform grid used by the engine to find entities near a point without
+// scanning the whole world. Items are bucketed by position; queries return
+// every item in the cells overlapping the search circle, so callers still
+// do their own exact distance check.
+export class SpatialGrid<T> {
+  private cellSize: number;
+  private cols: number;
+  private rows: number;
+  private cells: Map<number, T[]> = new Map();
+  private count: number = 0;
+
+  constructor(width: number, height: number, cellSize: number) {
+    this.cellSize = cellSize;
+    this.cols = Math.max(1, Math.ceil(width / cellSize));
+    this.rows = Math.max(1, Math.ceil(height / cellSize));
+  }
+
+  // Clamp a world coordinate to a column index
+  private toCol(x: number): number {
+    return Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellSize)));
+  }
+
+  // Clamp a world coordinate to a row index
+  private toRow(y: number): number {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+  }
+
+  private keyFor(position: Point): number {
+    return this.toRow(position.y) * this.cols + this.toCol(position.x);
+  }
+
+  // Add an item at a position
+  public insert(item: T, position: Point): void {
+    const key = this.keyFor(position);
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = [];
+      this.cells.set(key, cell);
+    }
+    cell.push(item);
+    this.count++;
+  }
+
+  // Remove an item that was inserted at the given position
+  public remove(item: T, position: Point): boolean {
+    const cell = this.cells.get(this.keyFor(position));
+    if (!cell) return false;
+
+    const index = cell.indexOf(item);
+    if (index === -1) return false;
+
+    // Swap-remove, order inside a cell doesn't matter
+    cell[index] = cell[cell.length - 1];
+    cell.pop();
+    this.count--;
+    return true;
+  }
+
+  // Move an item between cells after its position changed
+  public move(item: T, from: Point, to: Point): void {
+    if (this.keyFor(from) === this.keyFor(to)) return;
+    if (this.remove(item, from)) {
+      this.insert(item, to);
+    }
+  }
+
+  // Empty every cell but keep the arrays around to avoid reallocating each tick
+  public clear(): void {
+    this.cells.forEach(cell => {
+      cell.length = 0;
+    });
+    this.count = 0;
+  }
+
+  // Visit every item in the cells overlapping a circle. Return true from the
+  // callback to stop early.
+  public forEachNear(position: Point, radius: number, callback: (item: T) => boolean | void): void {
+    const minCol = this.toCol(position.x - radius);
+    const maxCol = this.toCol(position.x + radius);
+    const minRow = this.toRow(position.y - radius);
+    const maxRow = this.toRow(position.y + radius);
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const cell = this.cells.get(row * this.cols + col);
+        if (!cell) continue;
+
+        // Iterate backwards so callbacks may remove the current item
+        for (let i = cell.length - 1; i >= 0; i--) {
+          if (callback(cell[i]) === true) return;
+        }
+      }
+    }
+  }
+
+  // Collect the items in the cells overlapping a circle
+  public query(position: Point, radius: number): T[] {
+    const result: T[] = [];
+    this.forEachNear(position, radius, item => {
+      result.push(item);
+    });
+    return result;
+  }
+
+  // Number of items currently in the grid
+  public size(): number {
+    return this.count;
+  }
+}
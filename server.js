@@ -14,7 +14,7 @@ require('ts-node').register({
 });
 
 // Now we can import TypeScript files
-const { initGameServer, addAIPlayer } = require('./server/game/index');
+const { initGameServer } = require('./server/game/index');
 
 const dev = process.env.NODE_ENV !== 'production';
 const app = next({ dev });
@@ -22,9 +22,6 @@ const handle = app.getRequestHandler();
 
 const PORT = process.env.PORT || 3002;
 
-// Add some AI players for testing/demonstration
-const NUM_AI_PLAYERS = 5;
-
 app.prepare().then(() => {
   const server = express();
   
@@ -37,11 +34,6 @@ app.prepare().then(() => {
   // Initialize the game server with the HTTP server
   const io = initGameServer(httpServer);
   
-  // Add some AI players if specified
-  for (let i = 0; i < NUM_AI_PLAYERS; i++) {
-    addAIPlayer();
-  }
-  
   // Handle Next.js requests
   server.all('*', (req, res) => {
     return handle(req, res);
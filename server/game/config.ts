@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+import {
+  GameRules,
+  InvalidRulesError,
+  RULE_PRESETS,
+  isRulePreset,
+  resolveRules,
+  validateRules,
+} from '../../lib/game/rules';
+import { BotDifficulty } from '../../lib/game/bots';
+import { BotPopulationOptions, DEFAULT_BOT_POPULATION } from '../../lib/game/bot-population';
+
+// Game rules for this server, so matches can be tuned without a redeploy.
+// Layers are applied in order, each overriding the one before:
+//
+// 1. DEFAULT_RULES
+// 2. A named preset: GAME_RULES_PRESET, or a "preset" key in the rules file
+// 3. A JSON file of rules: GAME_RULES_FILE
+// 4. Inline JSON rules: GAME_RULES
+//
+// Anything invalid throws at startup instead of running a broken match.
+
+const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'normal', 'hard'];
+const MAX_BOT_POPULATION = 50;
+
+// Parse a JSON object of rules
+function parseRules(json: string, source: string): { [key: string]: unknown } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new InvalidRulesError([`${source} is not valid JSON: ${(error as Error).message}`]);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new InvalidRulesError([`${source} must contain a JSON object`]);
+  }
+
+  return parsed as { [key: string]: unknown };
+}
+
+function getPreset(name: unknown, source: string): Partial<GameRules> {
+  if (!isRulePreset(name)) {
+    throw new InvalidRulesError([
+      `${source} must be one of ${Object.keys(RULE_PRESETS).join(', ')}, got "${name}"`,
+    ]);
+  }
+  return RULE_PRESETS[name];
+}
+
+export function loadServerRules(env: NodeJS.ProcessEnv = process.env): GameRules {
+  let presetName: unknown = env.GAME_RULES_PRESET || undefined;
+  let presetSource = 'GAME_RULES_PRESET';
+  let fileRules = {};
+  let inlineRules = {};
+
+  if (env.GAME_RULES_FILE) {
+    let contents: string;
+    try {
+      contents = readFileSync(env.GAME_RULES_FILE, 'utf8');
+    } catch (error) {
+      throw new InvalidRulesError([`can't read GAME_RULES_FILE: ${(error as Error).message}`]);
+    }
+
+    const { preset, ...rules } = parseRules(contents, env.GAME_RULES_FILE);
+    fileRules = rules;
+    if (presetName === undefined && preset !== undefined) {
+      presetName = preset;
+      presetSource = `"preset" in ${env.GAME_RULES_FILE}`;
+    }
+  }
+
+  if (env.GAME_RULES) {
+    inlineRules = parseRules(env.GAME_RULES, 'GAME_RULES');
+  }
+
+  const preset = presetName !== undefined ? getPreset(presetName, presetSource) : {};
+
+  return resolveRules(validateRules({ ...preset, ...fileRules, ...inlineRules }));
+}
+
+// Bots filling up public rooms:
+// - BOT_POPULATION: players plus bots each public room aims for, 0 turns bots off
+// - BOT_DIFFICULTY: easy, normal or hard for every bot, a mix of all three if unset
+export function loadBotPopulation(env: NodeJS.ProcessEnv = process.env): BotPopulationOptions | null {
+  const options = { ...DEFAULT_BOT_POPULATION };
+
+  if (env.BOT_POPULATION !== undefined && env.BOT_POPULATION !== '') {
+    const target = Number(env.BOT_POPULATION);
+    if (!Number.isInteger(target) || target < 0 || target > MAX_BOT_POPULATION) {
+      throw new Error(`BOT_POPULATION must be a whole number between 0 and ${MAX_BOT_POPULATION}, got "${env.BOT_POPULATION}"`);
+    }
+    options.targetPopulation = target;
+  }
+
+  if (env.BOT_DIFFICULTY) {
+    if (!BOT_DIFFICULTIES.includes(env.BOT_DIFFICULTY as BotDifficulty)) {
+      throw new Error(`BOT_DIFFICULTY must be one of ${BOT_DIFFICULTIES.join(', ')}, got "${env.BOT_DIFFICULTY}"`);
+    }
+    options.difficulties = [env.BOT_DIFFICULTY as BotDifficulty];
+  }
+
+  return options.targetPopulation > 0 ? options : null;
+}
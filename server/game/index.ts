@@ -1,29 +1,51 @@
 import { Server as HTTPServer } from 'http';
 import { Server as WebSocketServer } from 'socket.io';
-import { GameEngine } from '../../lib/game/engine';
-import { PlayerInput, GameState } from '../../lib/game/models';
+import { PlayerInput, GameState, ViewportSize } from '../../lib/game/models';
+import { PROTOCOL_VERSION, WireFormat, decodeInput } from '../../lib/game/protocol';
+import { RoomSettings, sanitizeRoomSettings } from '../../lib/game/rules';
+import { loadBotPopulation, loadServerRules } from './config';
+import { GameRoom, RoomManager } from './rooms';
 
-// This will be our server-side game instance
-let gameEngine: GameEngine | null = null;
+// Every game on this server runs in a room, created on demand
+let roomManager: RoomManager | null = null;
 
-// Track connected players with their socket IDs
-const connectedPlayers: Map<string, { socketId: string, playerId: string }> = new Map();
+// Viewport limits used for view culling
+const DEFAULT_VIEWPORT: ViewportSize = { width: 1920, height: 1080 };
+const MAX_VIEWPORT: ViewportSize = { width: 3840, height: 2160 };
+
+// Sent to players who can't get a snake until the battle royale round ends
+const ROUND_IN_PROGRESS_MESSAGE = 'Round in progress, spectating until the next one';
+
+// Clamp a viewport reported by a client to sane bounds
+function sanitizeViewport(viewport: ViewportSize | undefined): ViewportSize {
+  if (!viewport || !Number.isFinite(viewport.width) || !Number.isFinite(viewport.height)) {
+    return DEFAULT_VIEWPORT;
+  }
+  
+  return {
+    width: Math.min(MAX_VIEWPORT.width, Math.max(1, viewport.width)),
+    height: Math.min(MAX_VIEWPORT.height, Math.max(1, viewport.height)),
+  };
+}
 
 /**
  * Server Optimization Strategy:
  * 
  * 1. Efficient Server Logic:
- *    - Implement spatial partitioning (quadtree/spatial hash) to improve collision detection
+ *    - Spatial hash grid in GameEngine (lib/game/spatial-grid.ts) for collision detection
  *    - Only process interactions between entities that are close to each other
  *    - Minimize object creation during update cycles to reduce GC pressure
  * 
  * 2. Network Traffic Optimization:
- *    - Send delta updates instead of full game state when possible
- *    - Implement view culling to only send data for entities near each player
- *    - Use binary formats instead of JSON for smaller payloads
+ *    - Keyframes plus deltas instead of the full game state every tick
+ *    - View culling: each player only receives entities near their snake
+ *    - Binary encoding (lib/game/protocol.ts) with a JSON fallback for debugging
+ *    - Inputs carry sequence numbers; snapshots ack them so clients can predict
+ *      their own snake (lib/game/prediction.ts) instead of waiting a round trip
  *    - Batch updates to reduce packet overhead
  * 
  * 3. Load Management:
+ *    - Independent rooms (server/game/rooms.ts), each with its own engine and player cap
  *    - Adjust tick rate based on server load (dynamic scaling)
  *    - Implement graceful degradation under high load
  *    - Use worker threads for CPU-intensive calculations
@@ -40,138 +62,189 @@ export function initGameServer(httpServer: HTTPServer) {
     },
   });
 
-  // Create a new game engine instance
-  gameEngine = new GameEngine(4000, 4000); // Larger world for multiplayer
+  // Tuning from the environment, throws on invalid rules so a typo doesn't
+  // quietly start matches with the defaults
+  const rules = loadServerRules();
+  console.log('Game rules:', JSON.stringify(rules));
+  const bots = loadBotPopulation();
 
-  // Set up game event listeners
-  gameEngine.addEventListener((event, data) => {
-    // Handle game events
-    switch (event) {
-      case 'playerDeath':
-        if (data && data.playerId) {
-          // Find the socket ID for this player
-          for (const [socketId, playerData] of Array.from(connectedPlayers.entries())) {
-            if (playerData.playerId === data.playerId) {
-              // Emit death event to this player
-              io.to(socketId).emit('playerDeath', {
-                cause: data.cause || 'unknown',
-                position: data.position || 0,
-                score: data.score || 0,
-                playTime: data.playTime || 0
-              });
-              break;
-            }
-          }
-        }
-        break;
-      case 'playerKill':
-        if (data && data.killerId && data.victimId) {
-          // Get the names of the victim and killer
-          const state = gameEngine!.getState();
-          const killerSnake = state.snakes.find(s => s.id === data.killerId);
-          const victimSnake = state.snakes.find(s => s.id === data.victimId);
-          
-          if (killerSnake && victimSnake) {
-            // Broadcast the kill event to all clients for kill feed
-            io.emit('playerKill', {
-              killerId: data.killerId,
-              killerName: killerSnake.name,
-              victimId: data.victimId,
-              victimName: victimSnake.name || 'Unknown',
-              score: data.score || 0
-            });
-          }
-          
-          // Also send private event to the killer (original behavior)
-          for (const [socketId, playerData] of Array.from(connectedPlayers.entries())) {
-            if (playerData.playerId === data.killerId) {
-              // Emit kill event to the killer
-              io.to(socketId).emit('playerKill', {
-                victimId: data.victimId,
-                victimName: data.victimName || 'Unknown',
-                score: data.score || 0
-              });
-              break;
-            }
-          }
-        }
-        break;
-      // Handle other game events as needed
-    }
-  });
-
-  // Set up tick rate (30 updates per second)
-  // OPTIMIZATION: This could be adjusted dynamically based on server load
-  const TICK_RATE = 1000 / 30;
-  
-  // Game update loop
-  setInterval(() => {
-    if (gameEngine) {
-      // OPTIMIZATION: The update call should use efficient algorithms internally
-      // such as spatial partitioning for collision detection
-      gameEngine.update(TICK_RATE);
-      
-      // Get the current game state
-      const state = gameEngine.getState();
-      
-      // OPTIMIZATION: Instead of broadcasting the full state to everyone,
-      // we should implement view culling and only send relevant parts of the state
-      // to each client based on their position
-      io.emit('gameState', state);
-      
-      // Send leaderboard updates less frequently (every 5 ticks)
-      // OPTIMIZATION: Reduce frequency of non-critical updates
-      if (Math.random() < 0.2) { // ~20% chance each tick, or roughly every 5 ticks on average
-        io.emit('leaderboardUpdate', state.leaderboard);
-      }
-    }
-  }, TICK_RATE);
+  // Rooms are created as players arrive and closed once they're empty,
+  // public rooms are topped up with bots
+  roomManager = new RoomManager(io, undefined, rules, bots);
+  const rooms = roomManager;
 
   // Handle socket connections
   io.on('connection', (socket) => {
     console.log('Player connected:', socket.id);
     
+    // Clients declare their protocol version up front; refuse mismatches
+    // with a clear error instead of sending them data they can't decode
+    const auth = socket.handshake.auth || {};
+    if (auth.protocolVersion !== PROTOCOL_VERSION) {
+      console.log(`Rejecting ${socket.id}: protocol version ${auth.protocolVersion} (server is ${PROTOCOL_VERSION})`);
+      socket.emit('protocolError', {
+        expected: PROTOCOL_VERSION,
+        received: auth.protocolVersion ?? null,
+        message: 'Your game client is out of date. Please refresh the page.',
+      });
+      socket.disconnect(true);
+      return;
+    }
+    
+    const wireFormat: WireFormat = auth.wireFormat === 'json' ? 'json' : 'binary';
+    
+    let room: GameRoom | null = null;
     let playerId: string | null = null;
+    let viewport: ViewportSize = DEFAULT_VIEWPORT;
+    
+    // Take this connection out of its room, closing the room if it was the
+    // last one unless the player is about to rejoin it
+    const leaveRoom = (next?: GameRoom) => {
+      if (!room || !playerId) return;
+      
+      room.leave(socket);
+      io.to(room.channel).emit('playerLeft', { id: playerId });
+      if (room !== next) {
+        rooms.closeRoomIfEmpty(room);
+      }
+      
+      room = null;
+      playerId = null;
+    };
     
-    // Handle player joining the game
-    socket.on('joinGame', (playerName: string) => {
-      if (!gameEngine) return;
+    // Put this connection in a room with a fresh snake
+    const joinRoom = (target: GameRoom, playerName: string) => {
+      // Joining again moves the player, they don't get a second snake
+      leaveRoom(target);
       
       // Create a new player
-      playerId = gameEngine.addPlayer(playerName || `Player_${socket.id.substring(0, 5)}`);
+      const name = playerName || `Player_${socket.id.substring(0, 5)}`;
+      const player = target.join(socket, name, viewport, wireFormat);
+      room = target;
+      playerId = player.playerId;
       
-      // Track the player in our map
-      connectedPlayers.set(socket.id, { socketId: socket.id, playerId });
+      // Send the player ID and room details back to the client
+      socket.emit('playerJoined', {
+        playerId,
+        roomCode: target.code,
+        isPrivate: target.isPrivate,
+        settings: target.settings,
+        rules: target.engine.getRules(),
+      });
       
-      // Send the player ID back to the client
-      socket.emit('playerJoined', { playerId });
+      // Give the new player a minimap right away instead of waiting for the next interval
+      socket.emit('minimapUpdate', target.engine.getMinimapSummary());
+      
+      // Arriving in the middle of a battle royale round means watching it out
+      if (target.engine.isRoundInProgress()) {
+        socket.emit('respawnRefused', { message: ROUND_IN_PROGRESS_MESSAGE });
+      }
       
-      console.log(`Player ${playerId} (${playerName}) joined the game`);
+      console.log(`Player ${playerId} (${name}) joined room ${target.code}`);
       
-      // Broadcast to all clients that a new player joined (for chat or notifications)
-      socket.broadcast.emit('playerJoinedGame', {
+      // Tell the rest of the room that a new player joined (for chat or notifications)
+      socket.to(target.channel).emit('playerJoinedGame', {
         id: playerId,
-        name: playerName || `Player_${socket.id.substring(0, 5)}`
+        name
       });
+    };
+    
+    // Handle viewport size updates used for view culling
+    socket.on('setViewport', (size: ViewportSize) => {
+      viewport = sanitizeViewport(size);
+      
+      const player = room?.getPlayer(socket.id);
+      if (player) {
+        player.viewport = viewport;
+      }
+    });
+    
+    // Handle resync requests from clients that missed a delta
+    socket.on('requestKeyframe', () => {
+      const player = room?.getPlayer(socket.id);
+      if (player) {
+        player.needsKeyframe = true;
+      }
+    });
+    
+    // Handle player joining the game, either a specific room by code or
+    // whichever room matchmaking picks
+    socket.on('joinGame', (playerName: string, roomCode?: string) => {
+      let target: GameRoom | undefined;
+      if (roomCode) {
+        target = rooms.getRoom(roomCode);
+        if (!target) {
+          socket.emit('joinError', { message: `Room ${roomCode} doesn't exist` });
+          return;
+        }
+        if (target.isFull()) {
+          socket.emit('joinError', { message: `Room ${target.code} is full` });
+          return;
+        }
+      } else {
+        target = rooms.findRoom();
+      }
+      
+      joinRoom(target, playerName);
+    });
+    
+    // Handle creating a private room; the creator joins it straight away and
+    // shares its code with friends
+    socket.on('createRoom', (playerName: string, settings?: Partial<RoomSettings>) => {
+      let target: GameRoom;
+      try {
+        target = rooms.createRoom({
+          isPrivate: true,
+          settings: sanitizeRoomSettings(settings),
+        });
+      } catch (error) {
+        // A bad room must never take the whole server down
+        console.warn(`Could not create a room for ${socket.id}:`, error);
+        socket.emit('joinError', { message: `Couldn't create the room with those settings` });
+        return;
+      }
+      
+      joinRoom(target, playerName);
     });
     
     // Handle player input
     // OPTIMIZATION: Validate and rate-limit input to prevent flooding
-    socket.on('playerInput', (input: PlayerInput) => {
-      if (!gameEngine || !playerId) return;
+    socket.on('playerInput', (data: PlayerInput | ArrayBuffer) => {
+      if (!room || !playerId) return;
       
-      // Validate that the input is from the correct player
-      if (input.id === playerId) {
-        gameEngine.handlePlayerInput(input);
+      let input: PlayerInput;
+      if (wireFormat === 'binary') {
+        // Binary inputs don't carry an id, the socket identifies the player
+        try {
+          const { direction, seq } = decodeInput(data);
+          input = { id: playerId, direction, seq };
+        } catch (error) {
+          console.warn(`Dropping malformed input from ${socket.id}:`, error);
+          return;
+        }
+      } else {
+        // Validate that the input is from the correct player
+        input = data as PlayerInput;
+        if (input.id !== playerId) return;
       }
+      
+      // Inputs can arrive out of order, ignore anything older than what was applied
+      const player = room.getPlayer(socket.id);
+      if (player && typeof input.seq === 'number') {
+        if (input.seq <= player.lastInputSeq) return;
+        player.lastInputSeq = input.seq;
+        player.ticksSinceInput = 0;
+      }
+      
+      room.engine.handlePlayerInput(input);
     });
     
     // Handle player name change
     socket.on('changeName', ({ id, name }: { id: string, name: string }) => {
-      if (!gameEngine || !playerId || id !== playerId) return;
+      if (!room || !playerId || id !== playerId) return;
       
       // Get the current game state
-      const state = gameEngine.getState();
+      const state = room.engine.getState();
       
       // Find the player's snake
       const snake = state.snakes.find(s => s.id === playerId);
@@ -180,32 +253,52 @@ export function initGameServer(httpServer: HTTPServer) {
         snake.name = name;
         console.log(`Player ${playerId} changed name to ${name}`);
         
-        // Broadcast the name change to all clients
-        io.emit('playerNameChanged', { id: playerId, name });
+        // Broadcast the name change to the room
+        io.to(room.channel).emit('playerNameChanged', { id: playerId, name });
       }
     });
     
     // Handle boost activation
     socket.on('activateBoost', () => {
-      if (!gameEngine || !playerId) return;
+      if (!room || !playerId) return;
       
       // Try to activate boost for this player
-      const boostActivated = gameEngine.activateBoost(playerId);
+      const boostActivated = room.engine.activateBoost(playerId);
       
       // Let the client know if boost was activated
       if (boostActivated) {
+        const rules = room.engine.getRules();
         socket.emit('boostActivated', { 
           playerId, 
-          duration: 5 // 5 seconds boost duration
+          duration: rules.boostMode === 'meter' ? rules.boostDuration / 1000 : null // Seconds, sprints last until released
         });
       }
     });
     
+    // Handle boost release, ends a sprint
+    socket.on('stopBoost', () => {
+      if (!room || !playerId) return;
+      
+      room.engine.stopBoost(playerId);
+    });
+    
+    // Come back after dying as the same player, without rejoining
+    socket.on('respawn', () => {
+      if (!room || !playerId) return;
+      
+      if (room.engine.respawnPlayer(playerId)) {
+        console.log(`Player ${playerId} respawned in room ${room.code}`);
+        socket.emit('respawned');
+      } else if (room.engine.isRoundInProgress()) {
+        socket.emit('respawnRefused', { message: ROUND_IN_PROGRESS_MESSAGE });
+      }
+    });
+    
     // Handle player disconnection
     socket.on('disconnect', () => {
-      if (gameEngine && playerId) {
+      if (room && playerId) {
         // Get player stats before removing
-        const state = gameEngine.getState();
+        const state = room.engine.getState();
         const snake = state.snakes.find(s => s.id === playerId);
         
         if (snake) {
@@ -213,38 +306,31 @@ export function initGameServer(httpServer: HTTPServer) {
           socket.emit('finalStats', {
             score: snake.score,
             kills: snake.kills || 0,
-            rank: gameEngine.getPlayerRank(playerId),
-            snakeLength: snake.segments.length
+            rank: room.engine.getPlayerRank(playerId),
+            snakeLength: snake.segments.length,
+            session: room.engine.getSessionStats(playerId)
           });
         }
         
-        // Remove player from the game
-        gameEngine.removePlayer(playerId);
-        
-        // Remove from connected players map
-        connectedPlayers.delete(socket.id);
-        
         console.log(`Player ${playerId} disconnected`);
         
-        // Broadcast disconnection to all clients
-        io.emit('playerLeft', { id: playerId });
-        
-        playerId = null;
+        // Remove the player and let the rest of the room know
+        leaveRoom();
       }
     });
     
     // Handle chat messages
     // OPTIMIZATION: Rate-limit chat messages to prevent spam
     socket.on('chatMessage', ({ message }: { message: string }) => {
-      if (!playerId) return;
+      if (!room || !playerId) return;
       
       // Get player name
-      const state = gameEngine?.getState();
-      const snake = state?.snakes.find(s => s.id === playerId);
+      const state = room.engine.getState();
+      const snake = state.snakes.find(s => s.id === playerId);
       const playerName = snake?.name || 'Unknown';
       
-      // Broadcast chat message to all clients
-      io.emit('chatMessage', {
+      // Broadcast chat message to the room
+      io.to(room.channel).emit('chatMessage', {
         playerId,
         playerName,
         message,
@@ -257,71 +343,20 @@ export function initGameServer(httpServer: HTTPServer) {
   return io;
 }
 
-// Get the current game state
-export function getGameState(): GameState | null {
-  if (!gameEngine) return null;
-  return gameEngine.getState();
+// Get the current game state of a room
+export function getGameState(roomCode: string): GameState | null {
+  const room = roomManager?.getRoom(roomCode);
+  if (!room) return null;
+  return room.engine.getState();
 }
 
-// Get the number of connected players
+// Get the number of connected players across all rooms
 export function getConnectedPlayerCount(): number {
-  return connectedPlayers.size;
+  return roomManager ? roomManager.getPlayerCount() : 0;
 }
 
 /**
  * Optimization TODO List:
  * 
- * 1. Implement spatial partitioning in the GameEngine class:
- *    - Add quadtree or spatial hash for efficient entity lookup
- *    - Only check collisions between nearby entities
- * 
- * 2. Add view culling to reduce network traffic:
- *    - Create a filtered game state for each player containing only nearby entities
- *    - Send delta updates instead of full state
- * 
- * 3. Implement client-side prediction and reconciliation:
- *    - Allow client to predict movement between server updates
- *    - Server corrects client when predictions are wrong
- * 
- * 4. Rate-limit player actions to prevent server flooding
- * 
- * 5. Implement binary protocol for more efficient network usage
+ * 1. Rate-limit player actions to prevent server flooding
  */
-
-// Add AI players to the game (for testing or to fill the game)
-export function addAIPlayer() {
-  if (!gameEngine) return null;
-  
-  const id = gameEngine.addPlayer(`AI_${Math.floor(Math.random() * 1000)}`);
-  
-  // Set up periodic random movement for the AI player
-  const aiInterval = setInterval(() => {
-    if (!gameEngine) {
-      clearInterval(aiInterval);
-      return;
-    }
-    
-    // Get the AI player's snake
-    const state = gameEngine.getState();
-    const snake = state.snakes.find(s => s.id === id);
-    
-    if (snake && snake.alive) {
-      // Create random direction
-      const input: PlayerInput = {
-        id,
-        direction: {
-          x: Math.random() * 2 - 1, // -1 to 1
-          y: Math.random() * 2 - 1, // -1 to 1
-        }
-      };
-      
-      // Send input to game engine
-      gameEngine.handlePlayerInput(input);
-    } else {
-      // AI player is dead, clean up
-      clearInterval(aiInterval);
-    }
-  }, 500); // AI updates less frequently than real players to reduce server load
-  
-  return id;
-} 
\ No newline at end of file
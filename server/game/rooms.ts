@@ -0,0 +1,402 @@
+import { Server as WebSocketServer, Socket } from 'socket.io';
+import { GameEngine, GameEventType } from '../../lib/game/engine';
+import { FixedTimestepLoop } from '../../lib/game/loop';
+import { GameState, Point, ViewportSize } from '../../lib/game/models';
+import { StateSnapshot, cloneState, createDelta, createKeyframe } from '../../lib/game/snapshot';
+import { WireFormat, ProtocolEncoder, encodeLeaderboard } from '../../lib/game/protocol';
+import { BotPopulation, BotPopulationOptions } from '../../lib/game/bot-population';
+import { GameRules, RoomSettings, DEFAULT_RULES, getDefaultRoomSettings, getRoomConfig } from '../../lib/game/rules';
+
+// A connected player and what part of the world they can see
+export interface ConnectedPlayer {
+  socketId: string;
+  playerId: string;
+  viewport: ViewportSize;
+  lastPosition?: Point; // Last known head position, used once the snake is gone
+  seq: number; // Sequence number of the last snapshot sent
+  lastSentState: GameState | null; // What the client should currently have
+  ticksSinceKeyframe: number;
+  needsKeyframe: boolean; // Set when the client asks to resync
+  wireFormat: WireFormat;
+  encoder: ProtocolEncoder; // Per-connection id table for the binary format
+  lastInputSeq: number; // Sequence number of the last input applied, acked in snapshots
+  ticksSinceInput: number; // Simulation steps run since that input, lets the client replay precisely
+}
+
+// How a room is set up when it's created
+export interface RoomOptions {
+  isPrivate: boolean; // Private rooms are only reachable by code, never by matchmaking
+  settings: RoomSettings;
+  maxPlayers: number;
+  baseRules: GameRules; // The server's rules, room settings are applied on top
+  bots: BotPopulationOptions | null; // Fill the room up with bots, null for none
+}
+
+// Room configuration
+export const MAX_PLAYERS_PER_ROOM = 20;
+const ROOM_CODE_LENGTH = 6;
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread
+
+// Snapshots go out at this interval (ms); the simulation itself runs at SIMULATION_STEP
+const SNAPSHOT_INTERVAL = 1000 / 30;
+
+// View culling configuration
+const MIN_CLIENT_ZOOM = 0.5; // Matches the renderer's zoom limit, so the widest possible view
+const VIEW_MARGIN = 200; // Extra world units around the viewport
+const MINIMAP_INTERVAL_TICKS = 30; // Send the minimap summary about once a second
+const KEYFRAME_INTERVAL_TICKS = 150; // Send a full keyframe every 5 seconds even without a resync request
+
+// Build the culled game state a single player should receive
+function getStateForPlayer(engine: GameEngine, player: ConnectedPlayer): GameState | null {
+  const snake = engine.getState().snakes.find(s => s.id === player.playerId);
+  if (snake && snake.segments.length > 0) {
+    player.lastPosition = { x: snake.segments[0].x, y: snake.segments[0].y };
+  }
+
+  // Nothing to follow yet, e.g. joined mid-round: watch the battle royale zone
+  const zone = engine.getState().zone;
+  if (!player.lastPosition && zone) {
+    player.lastPosition = { x: zone.x, y: zone.y };
+  }
+
+  if (!player.lastPosition) return null;
+
+  const halfWidth = player.viewport.width / (2 * MIN_CLIENT_ZOOM) + VIEW_MARGIN;
+  const halfHeight = player.viewport.height / (2 * MIN_CLIENT_ZOOM) + VIEW_MARGIN;
+
+  return engine.getStateInView(player.lastPosition, halfWidth, halfHeight, player.playerId);
+}
+
+// Turn a player's culled state into a keyframe or a delta against what they last received
+function buildSnapshot(player: ConnectedPlayer, state: GameState): StateSnapshot {
+  const current = cloneState(state);
+  const baseState = player.lastSentState;
+  const ack = player.lastInputSeq > 0
+    ? { seq: player.lastInputSeq, ticks: player.ticksSinceInput }
+    : undefined;
+  player.seq++;
+  player.lastSentState = current;
+
+  if (!baseState || player.needsKeyframe || player.ticksSinceKeyframe >= KEYFRAME_INTERVAL_TICKS) {
+    player.needsKeyframe = false;
+    player.ticksSinceKeyframe = 0;
+    return createKeyframe(current, player.seq, ack);
+  }
+
+  player.ticksSinceKeyframe++;
+  return createDelta(baseState, current, player.seq, player.seq - 1, ack);
+}
+
+// One arena: its own engine, tick loop and players. All of its sockets are in
+// a socket.io room named after the room code so broadcasts stay inside it.
+export class GameRoom {
+  public readonly code: string;
+  public readonly engine: GameEngine;
+  public readonly channel: string;
+  public readonly isPrivate: boolean;
+  public readonly settings: RoomSettings;
+  private io: WebSocketServer;
+  private players: Map<string, ConnectedPlayer> = new Map(); // Keyed by socket id
+  private maxPlayers: number;
+  private loop: FixedTimestepLoop;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTickTime: number = 0;
+  private tickCount: number = 0;
+  private closed: boolean = false;
+  private bots: BotPopulation | null;
+
+  constructor(io: WebSocketServer, code: string, options: RoomOptions) {
+    this.io = io;
+    this.code = code;
+    this.channel = `room:${code}`;
+    this.isPrivate = options.isPrivate;
+    this.settings = options.settings;
+    this.maxPlayers = options.maxPlayers;
+
+    const { size, rules } = getRoomConfig(options.settings, options.baseRules);
+    this.engine = new GameEngine(size, size, rules);
+    this.engine.addEventListener((event, data) => this.handleGameEvent(event, data));
+    this.bots = options.bots ? new BotPopulation(this.engine, options.bots, this.engine.getRandom()) : null;
+    this.loop = new FixedTimestepLoop(step => this.step(step));
+  }
+
+  // Connections in this room using a given wire format, for broadcasts
+  private wireChannel(format: WireFormat): string {
+    return `${this.channel}:${format}`;
+  }
+
+  // Start ticking
+  public start(): void {
+    if (this.tickTimer || this.closed) return;
+
+    // OPTIMIZATION: The snapshot rate could be adjusted dynamically based on server load
+    this.lastTickTime = Date.now();
+    this.tickTimer = setInterval(() => this.tick(), SNAPSHOT_INTERVAL);
+  }
+
+  // Stop ticking for good, the room can't be reused afterwards
+  public close(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.closed = true;
+  }
+
+  public isClosed(): boolean {
+    return this.closed;
+  }
+
+  // Run one fixed simulation step
+  private step(step: number): void {
+    // Collision detection inside update uses the engine's spatial grid
+    this.engine.update(step);
+
+    for (const player of Array.from(this.players.values())) {
+      player.ticksSinceInput++;
+    }
+  }
+
+  // Catch the world up with real time and send every player their view of it
+  private tick(): void {
+    // Timers drift and stall under load, so simulate however much time
+    // actually passed rather than trusting the interval
+    const now = Date.now();
+    const steps = this.loop.advance(now - this.lastTickTime);
+    this.lastTickTime = now;
+    if (steps === 0) return;
+
+    // Bots make up for missing players and replace dead bots
+    this.bots?.update(this.players.size, now);
+
+    const state = this.engine.getState();
+    this.tickCount++;
+
+    // Send each player only the entities around their snake
+    for (const player of Array.from(this.players.values())) {
+      const playerState = getStateForPlayer(this.engine, player);
+      if (playerState) {
+        const snapshot = buildSnapshot(player, playerState);
+        this.io.to(player.socketId).emit(
+          'gameState',
+          player.wireFormat === 'binary' ? player.encoder.encodeSnapshot(snapshot) : snapshot
+        );
+      }
+    }
+
+    // The minimap gets a coarse summary of the whole map at a lower rate
+    if (this.tickCount % MINIMAP_INTERVAL_TICKS === 0) {
+      this.io.to(this.channel).emit('minimapUpdate', this.engine.getMinimapSummary());
+    }
+
+    // Send leaderboard updates less frequently (every 5 ticks)
+    // OPTIMIZATION: Reduce frequency of non-critical updates
+    if (Math.random() < 0.2) { // ~20% chance each tick, or roughly every 5 ticks on average
+      this.io.to(this.wireChannel('binary')).emit('leaderboardUpdate', encodeLeaderboard(state.leaderboard));
+      this.io.to(this.wireChannel('json')).emit('leaderboardUpdate', state.leaderboard);
+    }
+  }
+
+  // Add a connection to the room and spawn its snake
+  public join(socket: Socket, playerName: string, viewport: ViewportSize, wireFormat: WireFormat): ConnectedPlayer {
+    const playerId = this.engine.addPlayer(playerName);
+
+    const player: ConnectedPlayer = {
+      socketId: socket.id,
+      playerId,
+      viewport,
+      seq: 0,
+      lastSentState: null,
+      ticksSinceKeyframe: 0,
+      needsKeyframe: true,
+      wireFormat,
+      encoder: new ProtocolEncoder(),
+      lastInputSeq: 0,
+      ticksSinceInput: 0,
+    };
+    this.players.set(socket.id, player);
+
+    socket.join(this.channel);
+    socket.join(this.wireChannel(wireFormat));
+
+    return player;
+  }
+
+  // Remove a connection and its snake
+  public leave(socket: Socket): void {
+    const player = this.players.get(socket.id);
+    if (!player) return;
+
+    this.engine.removePlayer(player.playerId);
+    this.players.delete(socket.id);
+
+    socket.leave(this.channel);
+    socket.leave(this.wireChannel(player.wireFormat));
+  }
+
+  public getPlayer(socketId: string): ConnectedPlayer | undefined {
+    return this.players.get(socketId);
+  }
+
+  public getPlayerCount(): number {
+    return this.players.size;
+  }
+
+  public isFull(): boolean {
+    return this.players.size >= this.maxPlayers;
+  }
+
+  public isEmpty(): boolean {
+    return this.players.size === 0;
+  }
+
+  // Find the connection controlling a snake
+  private findPlayerBySnake(playerId: string): ConnectedPlayer | undefined {
+    for (const player of Array.from(this.players.values())) {
+      if (player.playerId === playerId) return player;
+    }
+    return undefined;
+  }
+
+  // Forward engine events to the players they concern
+  private handleGameEvent(event: GameEventType, data?: any): void {
+    switch (event) {
+      case 'playerDeath':
+      case 'playerDeathBorder':
+        if (data && data.playerId) {
+          const player = this.findPlayerBySnake(data.playerId);
+          if (player) {
+            // Emit death event to this player
+            this.io.to(player.socketId).emit('playerDeath', {
+              cause: data.cause || 'unknown',
+              position: this.engine.getPlayerRank(data.playerId),
+              score: data.score || 0,
+              playTime: data.playTime || 0,
+              session: data.session
+            });
+          }
+        }
+        break;
+      case 'playerKill':
+        if (data && data.playerId && data.victimId) {
+          // Get the names of the victim and killer
+          const state = this.engine.getState();
+          const killerSnake = state.snakes.find(s => s.id === data.playerId);
+          const victimSnake = state.snakes.find(s => s.id === data.victimId);
+
+          if (killerSnake && victimSnake) {
+            // Broadcast once to everyone in the room, the killer included; clients
+            // tell their own kills apart by killerId
+            this.io.to(this.channel).emit('playerKill', {
+              killerId: killerSnake.id,
+              killerName: killerSnake.name,
+              victimId: victimSnake.id,
+              victimName: victimSnake.name || 'Unknown',
+              score: data.scoreGain || 0
+            });
+          }
+        }
+        break;
+      case 'headOnCollision':
+        // Everyone nearby should see the impact, not just the two snakes
+        this.io.to(this.channel).emit('headOnCollision', {
+          playerId: data.playerId,
+          otherId: data.otherId,
+          winnerId: data.winnerId,
+          at: data.at
+        });
+        break;
+      // Handle other game events as needed
+    }
+  }
+}
+
+// Creates rooms on demand, matches players into them and closes them once
+// everyone has left
+export class RoomManager {
+  private io: WebSocketServer;
+  private rooms: Map<string, GameRoom> = new Map();
+  private maxPlayersPerRoom: number;
+  private baseRules: GameRules;
+  private botOptions: BotPopulationOptions | null;
+
+  constructor(
+    io: WebSocketServer,
+    maxPlayersPerRoom: number = MAX_PLAYERS_PER_ROOM,
+    baseRules: GameRules = DEFAULT_RULES,
+    botOptions: BotPopulationOptions | null = null
+  ) {
+    this.io = io;
+    this.maxPlayersPerRoom = maxPlayersPerRoom;
+    this.baseRules = baseRules;
+    this.botOptions = botOptions;
+  }
+
+  // Generate a room code that isn't in use
+  private generateCode(): string {
+    let code = '';
+    do {
+      code = '';
+      for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+        code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+      }
+    } while (this.rooms.has(code));
+    return code;
+  }
+
+  // Open a new room and start its tick loop. Only public rooms get bots,
+  // private rooms are for playing with friends.
+  public createRoom(options: Partial<RoomOptions> = {}): GameRoom {
+    const room = new GameRoom(this.io, this.generateCode(), {
+      isPrivate: false,
+      settings: getDefaultRoomSettings(this.baseRules),
+      maxPlayers: this.maxPlayersPerRoom,
+      baseRules: this.baseRules,
+      bots: options.isPrivate ? null : this.botOptions,
+      ...options,
+    });
+    this.rooms.set(room.code, room);
+    room.start();
+
+    console.log(`${room.isPrivate ? 'Private room' : 'Room'} ${room.code} created`);
+    return room;
+  }
+
+  // Look up a room by its code, codes are case-insensitive
+  public getRoom(code: string): GameRoom | undefined {
+    return this.rooms.get(code.trim().toUpperCase());
+  }
+
+  // Matchmaking: the busiest public room that still has space, so players
+  // find each other, or a new room if they're all full
+  public findRoom(): GameRoom {
+    let best: GameRoom | null = null;
+
+    for (const room of Array.from(this.rooms.values())) {
+      if (room.isPrivate || room.isFull()) continue;
+      if (!best || room.getPlayerCount() > best.getPlayerCount()) {
+        best = room;
+      }
+    }
+
+    return best || this.createRoom();
+  }
+
+  // Close a room once its last player has left
+  public closeRoomIfEmpty(room: GameRoom): void {
+    if (!room.isEmpty() || this.rooms.get(room.code) !== room) return;
+
+    room.close();
+    this.rooms.delete(room.code);
+    console.log(`Room ${room.code} closed`);
+  }
+
+  // Total number of players across all rooms
+  public getPlayerCount(): number {
+    let count = 0;
+    this.rooms.forEach(room => {
+      count += room.getPlayerCount();
+    });
+    return count;
+  }
+}